@@ -1,10 +1,12 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { Link, Tabs } from 'expo-router';
-import { Pressable } from 'react-native';
+import { Pressable, View } from 'react-native';
 
 import Colors from '@/constants/Colors';
 import { useColorScheme } from '@/components/useColorScheme';
+import ReminderBanner from '@/components/ReminderBanner';
+import { useSettingsStore } from '@/src/lib/settingsStore';
 
 // Theme context for the app
 export type ThemeType = 'light' | 'dark';
@@ -39,12 +41,15 @@ export default function TabLayout() {
     return 'light';
   };
 
-  const [theme, setTheme] = useState<ThemeType>(getBrowserScheme());
+  const [systemTheme, setSystemTheme] = useState<ThemeType>(getBrowserScheme());
+  const themeMode = useSettingsStore((state) => state.settings.themeMode);
+  const updateSettings = useSettingsStore((state) => state.updateSettings);
+  const theme = themeMode === 'system' ? systemTheme : themeMode;
 
   // Sync with React Native scheme (native) or matchMedia (web)
   useEffect(() => {
     if (rnScheme) {
-      setTheme(rnScheme as ThemeType);
+      setSystemTheme(rnScheme as ThemeType);
     }
   }, [rnScheme]);
 
@@ -53,63 +58,73 @@ export default function TabLayout() {
     if (typeof window === 'undefined' || !window.matchMedia) return;
     const mql = window.matchMedia('(prefers-color-scheme: dark)');
     const listener = (e: MediaQueryListEvent) => {
-      setTheme(e.matches ? 'dark' : 'light');
+      setSystemTheme(e.matches ? 'dark' : 'light');
     };
     mql.addEventListener('change', listener);
     return () => mql.removeEventListener('change', listener);
   }, []);
 
-  // Simple toggle
+  // Toggling pins the opposite theme, overriding the system appearance
   const toggleTheme = () => {
-    setTheme(prev => (prev === 'light' ? 'dark' : 'light'));
+    updateSettings({ themeMode: theme === 'light' ? 'dark' : 'light' }).catch(() => {});
   };
 
   return (
     <ThemeContext.Provider value={{ theme, toggleTheme }}>
-      <Tabs
-        screenOptions={{
-          tabBarActiveTintColor: Colors[theme].tint,
-          tabBarStyle: {
-            backgroundColor: theme === 'dark' ? '#121212' : '#ffffff',
-          },
-          tabBarInactiveTintColor: '#888888',
-          headerStyle: {
-            backgroundColor: theme === 'dark' ? '#121212' : '#ffffff',
-          },
-          headerTintColor: theme === 'dark' ? '#ffffff' : '#000000',
-          headerShadowVisible: false,
-          // Just use a boolean for stability
-          headerShown: true,
-        }}>
-        <Tabs.Screen
-          name="index"
-          options={{
-            title: 'WaterLogger',
-            tabBarIcon: ({ color }) => <TabBarIcon name="tint" color={color} />,
-            headerRight: () => (
-              <Link href="/modal" asChild>
-                <Pressable>
-                  {({ pressed }) => (
-                    <FontAwesome
-                      name="info-circle"
-                      size={25}
-                      color={Colors[theme].text}
-                      style={{ marginRight: 15, opacity: pressed ? 0.5 : 1 }}
-                    />
-                  )}
-                </Pressable>
-              </Link>
-            ),
-          }}
-        />
-        <Tabs.Screen
-          name="two"
-          options={{
-            title: 'Settings',
-            tabBarIcon: ({ color }) => <TabBarIcon name="gear" color={color} />,
-          }}
-        />
-      </Tabs>
+      <View style={{ flex: 1 }}>
+        <Tabs
+          screenOptions={{
+            tabBarActiveTintColor: Colors[theme].tint,
+            tabBarStyle: {
+              backgroundColor: theme === 'dark' ? '#121212' : '#ffffff',
+            },
+            tabBarInactiveTintColor: '#888888',
+            headerStyle: {
+              backgroundColor: theme === 'dark' ? '#121212' : '#ffffff',
+            },
+            headerTintColor: theme === 'dark' ? '#ffffff' : '#000000',
+            headerShadowVisible: false,
+            // Just use a boolean for stability
+            headerShown: true,
+          }}>
+          <Tabs.Screen
+            name="index"
+            options={{
+              title: 'WaterLogger',
+              tabBarIcon: ({ color }) => <TabBarIcon name="tint" color={color} />,
+              headerRight: () => (
+                <Link href="/add-entry" asChild>
+                  <Pressable>
+                    {({ pressed }) => (
+                      <FontAwesome
+                        name="plus-circle"
+                        size={25}
+                        color={Colors[theme].text}
+                        style={{ marginRight: 15, opacity: pressed ? 0.5 : 1 }}
+                      />
+                    )}
+                  </Pressable>
+                </Link>
+              ),
+            }}
+          />
+          <Tabs.Screen
+            name="history"
+            options={{
+              title: 'History',
+              tabBarIcon: ({ color }) => <TabBarIcon name="list" color={color} />,
+            }}
+          />
+          <Tabs.Screen
+            name="settings"
+            options={{
+              title: 'Settings',
+              tabBarIcon: ({ color }) => <TabBarIcon name="gear" color={color} />,
+            }}
+          />
+        </Tabs>
+        <ReminderBanner />
+      </View>
     </ThemeContext.Provider>
   );
 }
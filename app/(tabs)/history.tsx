@@ -0,0 +1,379 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SectionList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useAppTheme } from './_layout';
+import UndoSnackbar from '@/components/UndoSnackbar';
+import { useEntries } from '@/src/lib/useEntries';
+import { WaterLogEntry } from '@/src/lib/logStore';
+import {
+  endOfDay,
+  formatTzOffset,
+  fromDayKey,
+  getTzOffsetMinutes,
+  startOfDay,
+  toDayKey,
+  toLogicalDay,
+  toViewDate,
+} from '@/src/lib/dateRanges';
+import { useSettingsStore } from '@/src/lib/settingsStore';
+import { formatVolume } from '@/src/lib/units';
+import { getBeverage, getBeverageLabel, getCaffeineMg } from '@/src/lib/beverages';
+import { BeverageProfile, BeverageType, ZoneView } from '@/src/lib/storage';
+
+// How many more days to load each time the end of the list is reached
+const PAGE_DAYS = 30;
+
+interface HistorySection {
+  key: string;
+  date: Date;
+  totalMl: number;
+  caffeineMg: number;
+  data: WaterLogEntry[];
+}
+
+// Wall-clock time an entry is listed under for the chosen zone view
+const getViewDate = (entry: WaterLogEntry, zoneView: ZoneView) =>
+  toViewDate(entry.timestamp.toDate(), entry.tzOffsetMinutes, zoneView);
+
+// Group newest-first entries into one section per day, with days starting at
+// `dayStartHour`. Entries logged while travelling can sort out of wall-clock
+// order, so sections are looked up by key rather than assumed to be contiguous.
+function groupByDay(
+  entries: WaterLogEntry[],
+  beverages: Record<BeverageType, BeverageProfile>,
+  zoneView: ZoneView,
+  dayStartHour: number
+): HistorySection[] {
+  const sections = new Map<string, HistorySection>();
+  for (const entry of entries) {
+    const date = toLogicalDay(getViewDate(entry, zoneView), dayStartHour);
+    const key = toDayKey(date);
+    let section = sections.get(key);
+    if (!section) {
+      section = { key, date, totalMl: 0, caffeineMg: 0, data: [] };
+      sections.set(key, section);
+    }
+    section.data.push(entry);
+    section.totalMl += entry.amountMl;
+    section.caffeineMg += getCaffeineMg(entry, beverages);
+  }
+  return [...sections.values()];
+}
+
+// Zone label for entries logged somewhere other than the current zone
+const getZoneNote = (entry: WaterLogEntry) => {
+  if (entry.tzOffsetMinutes === undefined) return null;
+  const currentOffset = getTzOffsetMinutes(entry.timestamp.toDate());
+  return entry.tzOffsetMinutes === currentOffset ? null : formatTzOffset(entry.tzOffsetMinutes);
+};
+
+export default function HistoryScreen() {
+  const { theme } = useAppTheme();
+  const router = useRouter();
+  const unit = useSettingsStore((state) => state.settings.volumeUnit);
+  const beverages = useSettingsStore((state) => state.settings.beverages);
+  const zoneView = useSettingsStore((state) => state.settings.zoneView);
+  const dayStartHour = useSettingsStore((state) => state.settings.dayStartHour);
+  const { day } = useLocalSearchParams<{ day?: string }>();
+  const listRef = useRef<SectionList<WaterLogEntry, HistorySection>>(null);
+  const scrolledToDayRef = useRef<string | null>(null);
+
+  const [daysLoaded, setDaysLoaded] = useState(PAGE_DAYS);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [lastDeleted, setLastDeleted] = useState<WaterLogEntry | null>(null);
+  // Shown above the list when deleting or undoing fails
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Load recent days, reaching further back when deep-linked to an older day
+  const range = useMemo(() => {
+    const end = endOfDay(new Date(), dayStartHour);
+    const start = startOfDay(new Date(), dayStartHour);
+    start.setDate(start.getDate() - (daysLoaded - 1));
+
+    const requestedDay = day ? fromDayKey(day) : null;
+    if (requestedDay) {
+      requestedDay.setHours(dayStartHour);
+      if (requestedDay < start) {
+        return { start: requestedDay, end };
+      }
+    }
+    return { start, end };
+  }, [daysLoaded, day, dayStartHour]);
+
+  const { entries, earliestDate, isLoading, deleteEntryAsync, restoreEntryAsync } = useEntries(range);
+  const sections = useMemo(
+    () => groupByDay(entries, beverages, zoneView, dayStartHour),
+    [entries, beverages, zoneView, dayStartHour]
+  );
+
+  // Scroll to the deep-linked day once its section is available
+  useEffect(() => {
+    if (!day || scrolledToDayRef.current === day) return;
+    const sectionIndex = sections.findIndex(section => section.key === day);
+    if (sectionIndex === -1) return;
+
+    scrolledToDayRef.current = day;
+    listRef.current?.scrollToLocation({ sectionIndex, itemIndex: 0, viewPosition: 0 });
+  }, [day, sections]);
+
+  const handleEndReached = () => {
+    if (earliestDate && range.start > earliestDate) {
+      setDaysLoaded(days => days + PAGE_DAYS);
+    }
+  };
+
+  const handleEdit = (entry: WaterLogEntry) => {
+    setActiveId(null);
+    router.push({
+      pathname: '/add-entry',
+      params: {
+        id: entry.id as string,
+        amountMl: String(entry.amountMl),
+        beverage: getBeverage(entry),
+        fatigue: String(entry.fatigue),
+        timestamp: String(entry.timestamp.toMillis()),
+      },
+    });
+  };
+
+  const handleConfirmDelete = async (entry: WaterLogEntry) => {
+    setActiveId(null);
+    setConfirmingId(null);
+    setActionError(null);
+    try {
+      await deleteEntryAsync(entry.id as string);
+      setLastDeleted(entry);
+    } catch (err) {
+      console.error('Error deleting entry from history:', err);
+      setActionError('The entry could not be deleted. Please try again.');
+    }
+  };
+
+  // Put the deleted entry back as it was, keeping its id and zone
+  const handleUndo = async () => {
+    if (!lastDeleted) return;
+    const entry = lastDeleted;
+    setLastDeleted(null);
+    setActionError(null);
+    try {
+      await restoreEntryAsync(entry);
+    } catch (err) {
+      console.error('Error restoring entry:', err);
+      setActionError('The entry could not be restored.');
+    }
+  };
+
+  const handleDismissSnackbar = useCallback(() => setLastDeleted(null), []);
+
+  // Create theme-based styles
+  const themeStyles = {
+    backgroundColor: theme === 'dark' ? '#121212' : '#f5f5f5',
+    cardColor: theme === 'dark' ? '#242424' : '#ffffff',
+    textColor: theme === 'dark' ? '#ffffff' : '#444444',
+    mutedColor: theme === 'dark' ? '#aaaaaa' : '#777777',
+    primaryColor: '#3b82f6',
+    highlightColor: theme === 'dark' ? '#1e3a5f' : '#dbeafe',
+    buttonColor: theme === 'dark' ? '#333333' : '#e5e5e5',
+  };
+
+  const renderItem = ({ item }: { item: WaterLogEntry }) => {
+    const isActive = activeId === item.id;
+    const isConfirming = confirmingId === item.id;
+    const zoneNote = getZoneNote(item);
+
+    return (
+      <TouchableOpacity
+        onLongPress={() => setActiveId(isActive ? null : item.id ?? null)}
+        onPress={() => isActive && setActiveId(null)}
+        style={[styles.entryRow, { backgroundColor: themeStyles.cardColor }]}
+      >
+        <View style={styles.entryMain}>
+          <Text style={[styles.entryTime, { color: themeStyles.textColor }]}>
+            {getViewDate(item, zoneView).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            {zoneNote && <Text style={[styles.zoneNote, { color: themeStyles.mutedColor }]}>{`\n${zoneNote}`}</Text>}
+          </Text>
+          <Text style={[styles.entryAmount, { color: themeStyles.primaryColor }]}>
+            {formatVolume(item.amountMl, unit)} {getBeverageLabel(getBeverage(item), beverages).toLowerCase()}
+          </Text>
+          <Text style={[styles.entryFatigue, { color: themeStyles.mutedColor }]}>
+            Fatigue {item.fatigue}/5
+          </Text>
+        </View>
+
+        {isActive && !isConfirming && (
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              onPress={() => handleEdit(item)}
+              style={[styles.actionButton, { backgroundColor: themeStyles.buttonColor }]}
+            >
+              <Text style={{ color: themeStyles.textColor }}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setConfirmingId(item.id ?? null)}
+              style={[styles.actionButton, styles.deleteButton]}
+            >
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {isConfirming && (
+          <View style={styles.actionRow}>
+            <Text style={[styles.confirmText, { color: themeStyles.textColor }]}>Delete this entry?</Text>
+            <TouchableOpacity
+              onPress={() => setConfirmingId(null)}
+              style={[styles.actionButton, { backgroundColor: themeStyles.buttonColor }]}
+            >
+              <Text style={{ color: themeStyles.textColor }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleConfirmDelete(item)}
+              style={[styles.actionButton, styles.deleteButton]}
+            >
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSectionHeader = ({ section }: { section: HistorySection }) => (
+    <View
+      style={[
+        styles.sectionHeader,
+        { backgroundColor: section.key === day ? themeStyles.highlightColor : themeStyles.backgroundColor },
+      ]}
+    >
+      <Text style={[styles.sectionTitle, { color: themeStyles.textColor }]}>
+        {section.date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+      </Text>
+      <Text style={[styles.sectionTotal, { color: themeStyles.mutedColor }]}>
+        {formatVolume(section.totalMl, unit)}
+        {section.caffeineMg > 0 && ` · ${Math.round(section.caffeineMg)} mg caffeine`}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: themeStyles.backgroundColor }]}>
+      {actionError && (
+        <TouchableOpacity onPress={() => setActionError(null)} style={styles.errorBanner}>
+          <Text style={styles.errorText}>{actionError}</Text>
+        </TouchableOpacity>
+      )}
+      <SectionList
+        ref={listRef}
+        sections={sections}
+        keyExtractor={(item) => item.id as string}
+        renderItem={renderItem}
+        renderSectionHeader={renderSectionHeader}
+        stickySectionHeadersEnabled
+        contentContainerStyle={styles.listContent}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        // Rows have variable height; retry once the target has been laid out
+        onScrollToIndexFailed={() => {
+          setTimeout(() => {
+            const sectionIndex = sections.findIndex(section => section.key === day);
+            if (sectionIndex !== -1) {
+              listRef.current?.scrollToLocation({ sectionIndex, itemIndex: 0, viewPosition: 0 });
+            }
+          }, 100);
+        }}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: themeStyles.mutedColor }]}>
+            {isLoading ? 'Loading…' : 'No entries yet. Tap + to log some water.'}
+          </Text>
+        }
+      />
+      <UndoSnackbar
+        message={lastDeleted ? 'Entry deleted' : null}
+        onUndo={handleUndo}
+        onDismiss={handleDismissSnackbar}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 80,
+  },
+  errorBanner: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  errorText: {
+    color: '#ef4444',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  sectionTotal: {
+    fontSize: 14,
+  },
+  entryRow: {
+    marginHorizontal: 16,
+    marginVertical: 4,
+    padding: 12,
+    borderRadius: 8,
+  },
+  entryMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  entryTime: {
+    fontSize: 14,
+    minWidth: 80,
+  },
+  zoneNote: {
+    fontSize: 11,
+  },
+  entryAmount: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  entryFatigue: {
+    fontSize: 14,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  deleteButton: {
+    backgroundColor: '#ef4444',
+  },
+  deleteText: {
+    color: '#ffffff',
+    fontWeight: '500',
+  },
+  confirmText: {
+    flex: 1,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
@@ -1,250 +1,408 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { StyleSheet, View, Text, TouchableOpacity, ScrollView, useColorScheme as RNUseColorScheme } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import { useAppTheme } from './_layout';
 import SimpleChart from '@/components/chart/SimpleChart';
-import { processEntriesForChart } from '@/components/chart/chartUtils';
+import CalendarHeatmap from '@/components/chart/CalendarHeatmap';
+import SyncStatusBadge from '@/components/SyncStatusBadge';
+import InsightCards from '@/components/InsightCards';
+import ComparisonSummary from '@/components/ComparisonSummary';
+import {
+  buildHeatmap,
+  ChartBucket,
+  getEntryDate,
+  getHeatmapRange,
+  HeatmapLayout,
+  processEntriesForChart,
+  summarizePeriod,
+  WaterLogEntry,
+} from '@/components/chart/chartUtils';
+import { useEarliestEntryDate, useEntries } from '@/src/lib/useEntries';
+import { useSettingsStore } from '@/src/lib/settingsStore';
+import { generateFullDemoData, DemoEntry } from '@/src/lib/demoData';
+import {
+  addPeriods,
+  clampWindowDate,
+  getPresetRange,
+  getPreviousRange,
+  getRangeEndingAt,
+  toDayKey,
+  toLogicalDay,
+} from '@/src/lib/dateRanges';
+import { SpanUnit, TIME_SPANS, TIME_SPAN_ORDER, TimeSpan } from '@/src/lib/timeSpans';
+import { computeInsights } from '@/src/lib/insights';
+import { formatVolume } from '@/src/lib/units';
 
-type TimeSpan = 'day' | 'week' | 'twoweeks' | 'month';
 type ThemeType = 'light' | 'dark';
 
-// Generate a full 60 days of hourly data, random with occasional skipped days
-function generateFullDemoData(): { amountCups: number; fatigue: number; timestamp: Date }[] {
-  const totalDays = 60;
-  const data: { amountCups: number; fatigue: number; timestamp: Date }[] = [];
+// Bars and lines over a time span, or days shaded on a calendar
+type ChartMode = 'bars' | 'calendar';
 
-  const today = new Date();
-  today.setHours(23, 59, 59, 999);
+const HEATMAP_LAYOUTS: { value: HeatmapLayout; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'year', label: 'Year' },
+];
 
-  for (let dayOffset = 0; dayOffset < totalDays; dayOffset++) {
-    const dayDate = new Date(today);
-    dayDate.setDate(today.getDate() - dayOffset);
-    dayDate.setHours(0, 0, 0, 0);
+// History the insights are computed over, independent of the chart window
+const INSIGHTS_SPAN: TimeSpan = 'quarter';
 
-    // 25% chance to skip this day entirely
-    if (Math.random() < 0.25) continue;
+// Weeks of past days the day view's projection is based on
+const PACE_HISTORY_WEEKS = 4;
 
-    // Random number of entries for the day (2-10)
-    const entriesCount = Math.floor(Math.random() * 9) + 2;
-    for (let i = 0; i < entriesCount; i++) {
-      const hour = Math.floor(Math.random() * 24);
-      const minute = Math.floor(Math.random() * 60);
-      const ts = new Date(dayDate);
-      ts.setHours(hour, minute, 0, 0);
+// Hours of the day view a drag has to cover to move it by a day
+const HOURS_PER_PAN_STEP = 8;
 
-      data.push({
-        amountCups: +(Math.random() * 2.7 + 0.3).toFixed(1), // 0.3–3.0 cups
-        fatigue: Math.floor(Math.random() * 5) + 1, // 1-5
-        timestamp: ts,
-      });
-    }
-  }
-
-  // Sort ascending by timestamp to keep order predictable
-  data.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  console.log(`[DATA] Generated ${data.length} log entries across ~${totalDays} days`);
-  return data;
-}
-
-function getWindowLength(timespan: TimeSpan) {
-  switch (timespan) {
-    case 'day': return 1;
-    case 'week': return 7;
-    case 'twoweeks': return 14;
-    case 'month': return 30;
-    default: return 7;
-  }
-}
-
-// Update the timespan button labels
-const TIMESPAN_LABELS: Record<TimeSpan, string> = {
-  day: 'Day',
-  week: 'Week',
-  twoweeks: '2 Weeks',
-  month: 'Month',
+// Span a tapped bar opens
+const BUCKET_ZOOM: Record<SpanUnit, TimeSpan> = {
+  day: 'day',
+  week: 'week',
+  month: 'month',
 };
 
 export default function HomeScreen() {
   // Get theme from context
   const { theme, toggleTheme } = useAppTheme();
+  const router = useRouter();
   
-  // Generate data once on mount
-  const [fullData, setFullData] = useState<Array<{
-    amountCups: number;
-    fatigue: number;
-    timestamp: Date;
-  }>>(() => generateFullDemoData());
+  // Demo mode swaps the user's data for a generated dataset
+  const [demoMode, setDemoMode] = useState(false);
+  const [demoData, setDemoData] = useState<DemoEntry[]>([]);
   
   const [timespan, setTimespan] = useState<TimeSpan>('week');
   const [showWater, setShowWater] = useState(true);
   const [showFatigue, setShowFatigue] = useState(true);
+  const [stackByBeverage, setStackByBeverage] = useState(false);
+  const [showWaterAverage, setShowWaterAverage] = useState(false);
+  const [showFatigueAverage, setShowFatigueAverage] = useState(false);
+  const [showTrend, setShowTrend] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [showPace, setShowPace] = useState(true);
+  const [chartMode, setChartMode] = useState<ChartMode>('bars');
+  const [heatmapLayout, setHeatmapLayout] = useState<HeatmapLayout>('month');
   
   // Track the reference date for our current window
-  // (this is the END date of the current window)
-  const [currentDate, setCurrentDate] = useState(() => {
-    const now = new Date();
-    now.setHours(23, 59, 59, 999);
-    return now;
-  });
+  // (any moment inside it; the window is the preset range containing it)
+  const [currentDate, setCurrentDate] = useState(() => new Date());
+  // Once dragged, the window ends on the day of `currentDate` instead of
+  // snapping to whole weeks or months, so it can move a bar at a time.
+  // Changing the span or zooming into a bar snaps it back.
+  const [isPanned, setIsPanned] = useState(false);
+  
+  const dailyGoalMl = useSettingsStore((state) => state.settings.dailyGoalMl);
+  const volumeUnit = useSettingsStore((state) => state.settings.volumeUnit);
+  const beverages = useSettingsStore((state) => state.settings.beverages);
+  const zoneView = useSettingsStore((state) => state.settings.zoneView);
+  const dayStartHour = useSettingsStore((state) => state.settings.dayStartHour);
+  const weekStartDay = useSettingsStore((state) => state.settings.weekStartDay);
+  const wakeHour = useSettingsStore((state) => state.settings.wakeHour);
+  const bedHour = useSettingsStore((state) => state.settings.bedHour);
   
   // Log the state when it changes
   useEffect(() => {
     console.log(`[NAVIGATION] Current date: ${currentDate.toISOString()}, Timespan: ${timespan}`);
   }, [currentDate, timespan]);
   
-  // Compute window dates based on current date and timespan
-  const { windowStart, windowEnd } = useMemo(() => {
-    const end = new Date(currentDate);
-    end.setHours(23, 59, 59, 999);
-    
-    const start = new Date(end);
-    start.setDate(end.getDate() - (getWindowLength(timespan) - 1));
-    start.setHours(0, 0, 0, 0);
-    
-    console.log(`[WINDOW] Start: ${start.toISOString()}, End: ${end.toISOString()}`);
-    return { windowStart: start, windowEnd: end };
-  }, [currentDate, timespan]);
-  
-  // Filter data for the current window
-  const entries = useMemo(() => {
-    const windowData = fullData.filter(e => 
-      e.timestamp >= windowStart && e.timestamp <= windowEnd
-    );
-    console.log(`[ENTRIES] Found ${windowData.length} entries in current window`);
-    return windowData;
-  }, [fullData, windowStart, windowEnd]);
+  const storedEarliest = useEarliestEntryDate();
   
   // DATA BOUNDARIES
   const dataBoundaries = useMemo(() => {
-    if (fullData.length === 0) {
-      return { earliest: new Date() };
+    let earliest: Date | null = null;
+    
+    if (!demoMode) {
+      earliest = storedEarliest;
+    } else {
+      // Find earliest demo date
+      for (const entry of demoData) {
+        const entryDate = getEntryDate(entry);
+        if (!earliest || entryDate < earliest) earliest = new Date(entryDate);
+      }
     }
 
-    // Find earliest date
-    let earliest = new Date();
-    for (const entry of fullData) {
-      if (entry.timestamp < earliest) earliest = new Date(entry.timestamp);
+    if (!earliest) {
+      return { earliest: new Date(), hasData: false };
     }
 
     console.log(`[BOUNDARIES] Earliest: ${earliest.toISOString()}`);
-    return { earliest };
-  }, [fullData]);
+    return { earliest, hasData: true };
+  }, [demoMode, demoData, storedEarliest]);
+  
+  // Compute window dates based on current date, timespan and where the
+  // user's days and weeks start
+  const boundary = useMemo(() => ({ dayStartHour, weekStartDay }), [dayStartHour, weekStartDay]);
+  const windowRange = useMemo(() => {
+    const earliest = dataBoundaries.hasData ? dataBoundaries.earliest : null;
+    let range;
+    if (chartMode === 'calendar') {
+      range = getHeatmapRange(heatmapLayout, currentDate, boundary);
+    } else if (isPanned) {
+      range = getRangeEndingAt(timespan, currentDate, boundary, earliest);
+    } else {
+      range = getPresetRange(timespan, currentDate, boundary, earliest);
+    }
+    console.log(`[WINDOW] Start: ${range.start.toISOString()}, End: ${range.end.toISOString()}`);
+    return range;
+  }, [currentDate, timespan, chartMode, heatmapLayout, isPanned, boundary, dataBoundaries]);
+  const { start: windowStart, end: windowEnd } = windowRange;
+  
+  // Load the current window from the log store
+  const { entries: storedEntries, isLoading } = useEntries(windowRange);
+  const { entries: recentEntries } = useEntries(INSIGHTS_SPAN);
+  
+  // The window before this one, for comparison. Always loaded, which also
+  // makes paging back instant.
+  const previousRange = useMemo(
+    () => getPreviousRange(timespan, windowRange, boundary),
+    [timespan, windowRange, boundary]
+  );
+  const { entries: storedPreviousEntries } = useEntries(previousRange);
+  
+  // Entries for the current window, from the store or the demo dataset
+  const entries: WaterLogEntry[] = useMemo(() => {
+    if (!demoMode) {
+      console.log(`[ENTRIES] Loaded ${storedEntries.length} entries in current window`);
+      return storedEntries;
+    }
+    const windowData = demoData.filter(e => 
+      getEntryDate(e) >= windowStart && getEntryDate(e) <= windowEnd
+    );
+    console.log(`[ENTRIES] Found ${windowData.length} demo entries in current window`);
+    return windowData;
+  }, [demoMode, storedEntries, demoData, windowStart, windowEnd]);
+  
+  const previousEntries: WaterLogEntry[] = useMemo(() => {
+    if (!demoMode) return storedPreviousEntries;
+    return demoData.filter(e => 
+      getEntryDate(e) >= previousRange.start && getEntryDate(e) <= previousRange.end
+    );
+  }, [demoMode, storedPreviousEntries, demoData, previousRange]);
+  
+  // The weeks before the day shown, for the day view's projection. Only
+  // today gets one, and the insights history already covers those weeks.
+  const historyEntries: WaterLogEntry[] | undefined = useMemo(() => {
+    if (timespan !== 'day') return undefined;
+    const from = addPeriods(windowStart, 'week', -PACE_HISTORY_WEEKS);
+    return (demoMode ? demoData : recentEntries).filter(e => 
+      getEntryDate(e) >= from && getEntryDate(e) < windowStart
+    );
+  }, [timespan, windowStart, demoMode, demoData, recentEntries]);
+  
+  // Reset to today's view
+  const resetToToday = () => {
+    setCurrentDate(new Date());
+    setIsPanned(false);
+  };
   
   // Regenerate all data - completely fresh dataset
   const handleGenerateSampleData = () => {
     console.log('[ACTION] Generating new sample data');
-    const newData = generateFullDemoData();
-    setFullData(newData);
-    
-    // Reset to today's view
-    const now = new Date();
-    now.setHours(23, 59, 59, 999);
-    setCurrentDate(now);
+    setDemoData(generateFullDemoData());
+    resetToToday();
+  };
+  
+  // Switch between the user's entries and generated demo data
+  const handleToggleDemoMode = () => {
+    console.log(`[ACTION] ${demoMode ? 'Leaving' : 'Entering'} demo mode`);
+    if (!demoMode) {
+      setDemoData(generateFullDemoData());
+    }
+    setDemoMode(!demoMode);
+    resetToToday();
   };
   
   // NAVIGATION LOGIC
   
-  // Can we go back further?
+  // Can we go back further? Only while there is data before this window
   const canGoBack = useMemo(() => {
-    if (fullData.length === 0) return false;
-    
-    // The window start would be BEFORE the earliest data
-    const nextStart = new Date(windowStart);
-    nextStart.setDate(nextStart.getDate() - getWindowLength(timespan));
+    if (!dataBoundaries.hasData) return false;
     
-    const canNav = nextStart >= dataBoundaries.earliest;
-    console.log(`[NAVIGATION] Can go back: ${canNav}, Next start would be: ${nextStart.toISOString()}`);
+    const canNav = windowStart > dataBoundaries.earliest;
+    console.log(`[NAVIGATION] Can go back: ${canNav}, Window start: ${windowStart.toISOString()}`);
     return canNav;
-  }, [windowStart, timespan, dataBoundaries.earliest, fullData.length]);
+  }, [windowStart, dataBoundaries.earliest, dataBoundaries.hasData]);
   
-  // Can we go forward?
+  // Can we go forward? Not once the window reaches today
   const canGoForward = useMemo(() => {
-    // Don't go past today
     const now = new Date();
-    now.setHours(23, 59, 59, 999);
     
-    const canNav = currentDate < now;
-    console.log(`[NAVIGATION] Can go forward: ${canNav}, Current end: ${currentDate.toISOString()}, Now: ${now.toISOString()}`);
+    const canNav = windowEnd < now;
+    console.log(`[NAVIGATION] Can go forward: ${canNav}, Current end: ${windowEnd.toISOString()}, Now: ${now.toISOString()}`);
     return canNav;
-  }, [currentDate]);
+  }, [windowEnd]);
   
-  // Go back one window length
+  // Go back one window: the last moment before this one starts
   const handleBack = () => {
     console.log('[ACTION] Going back one window');
-    setCurrentDate(prev => {
-      // Move back by exactly one window length
-      const newDate = new Date(prev);
-      newDate.setDate(newDate.getDate() - getWindowLength(timespan));
-      
-      // Ensure we don't go before the earliest data
-      const newWindowStart = new Date(newDate);
-      newWindowStart.setDate(newWindowStart.getDate() - (getWindowLength(timespan) - 1));
-      newWindowStart.setHours(0, 0, 0, 0);
-      
-      // If the new window start would be before earliest data, clamp to earliest
-      if (newWindowStart < dataBoundaries.earliest) {
-        const earliestWindowEnd = new Date(dataBoundaries.earliest);
-        earliestWindowEnd.setDate(earliestWindowEnd.getDate() + (getWindowLength(timespan) - 1));
-        earliestWindowEnd.setHours(23, 59, 59, 999);
-        console.log(`[NAVIGATION] Clamping back navigation to earliest data: ${earliestWindowEnd.toISOString()}`);
-        return earliestWindowEnd;
-      }
-      
-      return newDate;
-    });
+    setCurrentDate(new Date(windowStart.getTime() - 1));
   };
   
-  // Go forward one window length
+  // Go forward one window: the first moment after this one ends
   const handleForward = () => {
     console.log('[ACTION] Going forward one window');
-    setCurrentDate(prev => {
-      // Move forward by exactly one window length
-      const newDate = new Date(prev);
-      newDate.setDate(newDate.getDate() + getWindowLength(timespan));
-      
-      // Don't go past today
-      const now = new Date();
-      now.setHours(23, 59, 59, 999);
-      
-      if (newDate > now) {
-        console.log(`[NAVIGATION] Clamping forward navigation to today: ${now.toISOString()}`);
-        return now;
-      }
-      
-      return newDate;
-    });
+    const next = new Date(windowEnd.getTime() + 1);
+    
+    // Don't go past today
+    const now = new Date();
+    if (next > now) {
+      console.log(`[NAVIGATION] Clamping forward navigation to today: ${now.toISOString()}`);
+      setCurrentDate(now);
+      return;
+    }
+    setCurrentDate(next);
   };
   
   // When timespan changes, preserve the latest date in the window
   const handleTimespanChange = (newTimespan: TimeSpan) => {
     console.log(`[ACTION] Changing timespan from ${timespan} to ${newTimespan}`);
     
-    // First update the timespan state
+    // First update the timespan state. The new span snaps to whole
+    // periods again, even after a drag.
     setTimespan(newTimespan);
+    setIsPanned(false);
     
-    // Keep the same end date so the most recent data remains visible
-    // The start date will be automatically recalculated based on the new timespan
-    // No need to adjust currentDate since we want to keep the same end date
+    // Keep the same reference date so the day being looked at stays visible
+    // The window will be automatically recalculated based on the new timespan.
+    // All-time windows always run up to today.
+    if (TIME_SPANS[newTimespan].length === null) {
+      resetToToday();
+    }
+  };
+  
+  // Switch between the chart and the calendar, keeping the same reference date
+  const handleChartModeChange = (mode: ChartMode) => {
+    console.log(`[ACTION] Changing chart mode from ${chartMode} to ${mode}`);
+    setChartMode(mode);
+  };
+  
+  // Drag the window along by whole bars, or whole days of the day view.
+  // Data for the newly visible range is fetched as the window moves.
+  const handlePan = (steps: number) => {
+    // All-time windows already show everything
+    if (TIME_SPANS[timespan].length === null) return;
+    
+    const bucket = chartData.bucketSize ?? 'day';
+    const unit: SpanUnit = bucket === 'hour' ? 'day' : bucket;
+    const earliest = dataBoundaries.hasData ? dataBoundaries.earliest : null;
+    console.log(`[ACTION] Panning ${steps} ${unit}(s)`);
+    
+    // Several steps can arrive before the next render
+    setCurrentDate(date => clampWindowDate(
+      timespan,
+      addPeriods(isPanned ? date : windowEnd, unit, steps),
+      boundary,
+      earliest
+    ));
+    setIsPanned(true);
+  };
+  
+  // Pinch to step to the next shorter or longer span, keeping the date
+  const handleZoom = (direction: 1 | -1) => {
+    const next = TIME_SPAN_ORDER[TIME_SPAN_ORDER.indexOf(timespan) - direction];
+    if (next) handleTimespanChange(next);
+  };
+  
+  // Zoom in on the tapped bar: a day opens its hours, a week or month
+  // bar opens that week or month. Hours are as far in as the chart goes,
+  // so an hour opens the day's entries instead.
+  const handleBucketPress = (bucket: ChartBucket) => {
+    console.log(`[ACTION] Bar pressed: ${bucket.size} from ${bucket.start.toISOString()}, ${bucket.entries.length} entries`);
+    if (bucket.size === 'hour') {
+      // Demo entries only exist on this screen
+      if (!demoMode) openDay(bucket.start);
+      return;
+    }
+    
+    const zoomed = BUCKET_ZOOM[bucket.size];
+    setTimespan(zoomed);
+    setIsPanned(false);
+    // Month windows end on their reference date, so aim at the bar's end
+    const now = new Date();
+    const target = zoomed === 'month' ? bucket.end : bucket.start;
+    setCurrentDate(target > now ? now : target);
+  };
+  
+  // Open the held bar's first day in the history list
+  const handleBucketLongPress = (bucket: ChartBucket) => {
+    // Demo entries only exist on this screen
+    if (demoMode) return;
+    openDay(bucket.start);
+  };
+  
+  // Open a tapped calendar day in the history list
+  const handleDayPress = (day: Date) => {
+    if (demoMode) return;
+    openDay(day);
+  };
+  
+  const openDay = (day: Date) => {
+    console.log(`[ACTION] Opening history for ${toDayKey(day)}`);
+    router.push({ pathname: '/history', params: { day: toDayKey(day) } });
   };
   
   // Process chart data
   const chartData = useMemo(() => {
-    if (entries.length === 0) {
-      // Return demo data if no entries
-      return {
-        labels: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
-        waterData: [1.5, 2.2, 1.8, 0, 2.5, 1.2, 2.0],
-        fatigueData: [3, 2, 4, 5, 2, 1, 3]
-      };
-    }
-    return processEntriesForChart(entries, timespan);
-  }, [entries, timespan]);
+    return processEntriesForChart(entries, timespan, windowEnd, {
+      dailyGoalMl,
+      unit: volumeUnit,
+      beverages,
+      zoneView,
+      dayStartHour,
+      weekStartDay,
+      previousEntries: compareMode ? previousEntries : undefined,
+      wakeHour,
+      bedHour,
+      historyEntries,
+    });
+  }, [
+    entries,
+    timespan,
+    windowEnd,
+    dailyGoalMl,
+    volumeUnit,
+    beverages,
+    zoneView,
+    dayStartHour,
+    weekStartDay,
+    compareMode,
+    previousEntries,
+    wakeHour,
+    bedHour,
+    historyEntries,
+  ]);
+  
+  // Calendar cells for the current window
+  const heatmapData = useMemo(() => {
+    if (chartMode !== 'calendar') return null;
+    return buildHeatmap(entries, heatmapLayout, windowRange, {
+      dailyGoalMl,
+      beverages,
+      zoneView,
+      dayStartHour,
+      weekStartDay,
+    });
+  }, [chartMode, entries, heatmapLayout, windowRange, dailyGoalMl, beverages, zoneView, dayStartHour, weekStartDay]);
+  
+  // Totals for the comparison summary. The previous window follows the
+  // time span, so the calendar has no comparison.
+  const comparison = useMemo(() => {
+    if (!compareMode || chartMode !== 'bars') return null;
+    return {
+      current: summarizePeriod(entries, windowRange, dayStartHour),
+      previous: summarizePeriod(previousEntries, previousRange, dayStartHour),
+    };
+  }, [compareMode, chartMode, entries, windowRange, previousEntries, previousRange, dayStartHour]);
+  
+  // Relate intake and fatigue over recent history, or the whole demo dataset
+  const insights = useMemo(() => {
+    return computeInsights(demoMode ? demoData : recentEntries, { dailyGoalMl, beverages, dayStartHour });
+  }, [demoMode, demoData, recentEntries, dailyGoalMl, beverages, dayStartHour]);
   
   // Create theme-based styles
   const themeStyles = {
     backgroundColor: theme === 'dark' ? '#121212' : '#f5f5f5',
     cardColor: theme === 'dark' ? '#242424' : '#ffffff',
     textColor: theme === 'dark' ? '#ffffff' : '#444444',
+    mutedColor: theme === 'dark' ? '#aaaaaa' : '#777777',
     primaryColor: '#3b82f6',
     buttonColor: theme === 'dark' ? '#333333' : '#e5e5e5',
     buttonTextColor: theme === 'dark' ? '#ffffff' : '#444444',
@@ -290,40 +448,128 @@ export default function HomeScreen() {
       
       <View style={styles.dateRow}>
         <Text style={[styles.dateText, { color: themeStyles.textColor }]}>
-          {windowStart.toLocaleDateString()} - {windowEnd.toLocaleDateString()}
+          {windowStart.toLocaleDateString()} - {toLogicalDay(windowEnd, dayStartHour).toLocaleDateString()}
+          {demoMode ? ' (demo data)' : isLoading ? ' (loading…)' : ''}
         </Text>
       </View>
       
-      <View style={[styles.chartContainer, { backgroundColor: themeStyles.cardColor }]}>
-        <SimpleChart
-          theme={theme}
-          data={chartData}
-          showWater={showWater}
-          showFatigue={showFatigue}
+      <SyncStatusBadge textColor={themeStyles.textColor} />
+      
+      {heatmapData ? (
+        <View style={[styles.chartContainer, styles.heatmapContainer, { backgroundColor: themeStyles.cardColor }]}>
+          <CalendarHeatmap
+            theme={theme}
+            data={heatmapData}
+            showFatigue={showFatigue}
+            onDayPress={handleDayPress}
+          />
+        </View>
+      ) : (
+        <View style={[styles.chartContainer, { backgroundColor: themeStyles.cardColor }]}>
+          <SimpleChart
+            theme={theme}
+            data={chartData}
+            showWater={showWater}
+            showFatigue={showFatigue}
+            stackByBeverage={stackByBeverage}
+            showWaterAverage={showWaterAverage}
+            showFatigueAverage={showFatigueAverage}
+            showTrend={showTrend}
+            showPace={showPace}
+            entries={entries}
+            zoneView={zoneView}
+            onBucketPress={handleBucketPress}
+            onBucketLongPress={handleBucketLongPress}
+            panStepBars={chartData.bucketSize === 'hour' ? HOURS_PER_PAN_STEP : 1}
+            onPan={handlePan}
+            onZoom={handleZoom}
+          />
+        </View>
+      )}
+      
+      {chartMode === 'bars' && showPace && chartData.projectedTotalMl !== undefined && (
+        <Text style={[styles.projectionText, { color: themeStyles.mutedColor }]}>
+          {`Heading for about ${formatVolume(chartData.projectedTotalMl, volumeUnit)} by the end of the day, `}
+          {`going by your last ${PACE_HISTORY_WEEKS} weeks (goal ${formatVolume(dailyGoalMl, volumeUnit)}).`}
+        </Text>
+      )}
+      
+      {comparison && (
+        <ComparisonSummary
+          current={comparison.current}
+          previous={comparison.previous}
+          previousLabel={`${previousRange.start.toLocaleDateString()} - ${toLogicalDay(previousRange.end, dayStartHour).toLocaleDateString()}`}
+          unit={volumeUnit}
+          textColor={themeStyles.textColor}
+          mutedColor={themeStyles.mutedColor}
         />
-      </View>
+      )}
       
       <View style={styles.buttonRow}>
-        {(['day', 'week', 'twoweeks', 'month'] as TimeSpan[]).map(span => (
+        {(['bars', 'calendar'] as ChartMode[]).map(mode => (
           <TouchableOpacity
-            key={span}
+            key={mode}
             style={[
               styles.simpleButton, 
-              timespan === span && styles.activeButton,
-              { backgroundColor: timespan === span ? themeStyles.primaryColor : themeStyles.buttonColor }
+              chartMode === mode && styles.activeButton,
+              { backgroundColor: chartMode === mode ? themeStyles.primaryColor : themeStyles.buttonColor }
             ]}
-            onPress={() => handleTimespanChange(span)}
+            onPress={() => handleChartModeChange(mode)}
           >
             <Text style={[
               styles.buttonText, 
-              { color: timespan === span ? '#ffffff' : themeStyles.buttonTextColor }
+              { color: chartMode === mode ? '#ffffff' : themeStyles.buttonTextColor }
             ]}>
-              {TIMESPAN_LABELS[span]}
+              {mode === 'bars' ? 'Chart' : 'Calendar'}
             </Text>
           </TouchableOpacity>
         ))}
       </View>
       
+      {chartMode === 'calendar' ? (
+        <View style={styles.buttonRow}>
+          {HEATMAP_LAYOUTS.map(({ value, label }) => (
+            <TouchableOpacity
+              key={value}
+              style={[
+                styles.simpleButton, 
+                heatmapLayout === value && styles.activeButton,
+                { backgroundColor: heatmapLayout === value ? themeStyles.primaryColor : themeStyles.buttonColor }
+              ]}
+              onPress={() => setHeatmapLayout(value)}
+            >
+              <Text style={[
+                styles.buttonText, 
+                { color: heatmapLayout === value ? '#ffffff' : themeStyles.buttonTextColor }
+              ]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : (
+        <View style={[styles.buttonRow, styles.wrapRow]}>
+          {TIME_SPAN_ORDER.map(span => (
+            <TouchableOpacity
+              key={span}
+              style={[
+                styles.simpleButton, 
+                timespan === span && styles.activeButton,
+                { backgroundColor: timespan === span ? themeStyles.primaryColor : themeStyles.buttonColor }
+              ]}
+              onPress={() => handleTimespanChange(span)}
+            >
+              <Text style={[
+                styles.buttonText, 
+                { color: timespan === span ? '#ffffff' : themeStyles.buttonTextColor }
+              ]}>
+                {TIME_SPANS[span].label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      
       <View style={styles.buttonRow}>
         <TouchableOpacity
           style={[
@@ -355,16 +601,139 @@ export default function HomeScreen() {
             Fatigue
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.simpleButton, 
+            stackByBeverage && styles.activeButton,
+            { backgroundColor: stackByBeverage ? themeStyles.primaryColor : themeStyles.buttonColor }
+          ]}
+          onPress={() => setStackByBeverage(s => !s)}
+        >
+          <Text style={[
+            styles.buttonText, 
+            { color: stackByBeverage ? '#ffffff' : themeStyles.buttonTextColor }
+          ]}>
+            By drink
+          </Text>
+        </TouchableOpacity>
       </View>
       
-      <TouchableOpacity 
-        style={[styles.simpleButton, { backgroundColor: themeStyles.buttonColor }]} 
-        onPress={handleGenerateSampleData}
-      >
-        <Text style={[styles.buttonText, { color: themeStyles.buttonTextColor }]}>
-          Generate Sample Data
-        </Text>
-      </TouchableOpacity>
+      {chartMode === 'bars' && (
+        <View style={[styles.buttonRow, styles.wrapRow]}>
+          <TouchableOpacity
+            style={[
+              styles.simpleButton, 
+              showWaterAverage && styles.activeButton,
+              { backgroundColor: showWaterAverage ? themeStyles.primaryColor : themeStyles.buttonColor }
+            ]}
+            onPress={() => setShowWaterAverage(a => !a)}
+          >
+            <Text style={[
+              styles.buttonText, 
+              { color: showWaterAverage ? '#ffffff' : themeStyles.buttonTextColor }
+            ]}>
+              7-day avg
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.simpleButton, 
+              showFatigueAverage && styles.activeButton,
+              { backgroundColor: showFatigueAverage ? themeStyles.primaryColor : themeStyles.buttonColor }
+            ]}
+            onPress={() => setShowFatigueAverage(f => !f)}
+          >
+            <Text style={[
+              styles.buttonText, 
+              { color: showFatigueAverage ? '#ffffff' : themeStyles.buttonTextColor }
+            ]}>
+              Fatigue avg
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.simpleButton, 
+              showTrend && styles.activeButton,
+              { backgroundColor: showTrend ? themeStyles.primaryColor : themeStyles.buttonColor }
+            ]}
+            onPress={() => setShowTrend(t => !t)}
+          >
+            <Text style={[
+              styles.buttonText, 
+              { color: showTrend ? '#ffffff' : themeStyles.buttonTextColor }
+            ]}>
+              Trend
+            </Text>
+          </TouchableOpacity>
+          {timespan === 'day' && (
+            <TouchableOpacity
+              style={[
+                styles.simpleButton, 
+                showPace && styles.activeButton,
+                { backgroundColor: showPace ? themeStyles.primaryColor : themeStyles.buttonColor }
+              ]}
+              onPress={() => setShowPace(p => !p)}
+            >
+              <Text style={[
+                styles.buttonText, 
+                { color: showPace ? '#ffffff' : themeStyles.buttonTextColor }
+              ]}>
+                Pace
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[
+              styles.simpleButton, 
+              compareMode && styles.activeButton,
+              { backgroundColor: compareMode ? themeStyles.primaryColor : themeStyles.buttonColor }
+            ]}
+            onPress={() => setCompareMode(c => !c)}
+          >
+            <Text style={[
+              styles.buttonText, 
+              { color: compareMode ? '#ffffff' : themeStyles.buttonTextColor }
+            ]}>
+              Compare
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[
+            styles.simpleButton, 
+            demoMode && styles.activeButton,
+            { backgroundColor: demoMode ? themeStyles.primaryColor : themeStyles.buttonColor }
+          ]}
+          onPress={handleToggleDemoMode}
+        >
+          <Text style={[
+            styles.buttonText, 
+            { color: demoMode ? '#ffffff' : themeStyles.buttonTextColor }
+          ]}>
+            Demo Mode
+          </Text>
+        </TouchableOpacity>
+        {demoMode && (
+          <TouchableOpacity 
+            style={[styles.simpleButton, { backgroundColor: themeStyles.buttonColor }]} 
+            onPress={handleGenerateSampleData}
+          >
+            <Text style={[styles.buttonText, { color: themeStyles.buttonTextColor }]}>
+              Generate Sample Data
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      
+      <InsightCards
+        insights={insights}
+        cardColor={themeStyles.cardColor}
+        textColor={themeStyles.textColor}
+        mutedColor={themeStyles.mutedColor}
+      />
     </ScrollView>
   );
 }
@@ -400,6 +769,15 @@ const styles = StyleSheet.create({
   dateText: {
     fontSize: 14,
   },
+  // Calendar cells set their own height
+  heatmapContainer: {
+    height: 'auto',
+  },
+  projectionText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
   arrowButton: {
     paddingHorizontal: 12,
     paddingVertical: 4,
@@ -437,6 +815,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 12,
   },
+  wrapRow: {
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
   simpleButton: {
     paddingVertical: 8,
     paddingHorizontal: 12,
@@ -0,0 +1,615 @@
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAppTheme } from './_layout';
+import { useOfflineModeStore } from '@/src/lib/offlineMode';
+import { useLogStore } from '@/src/lib/logStore';
+import {
+  BeverageProfile,
+  BeverageType,
+  ReminderSchedule,
+  ThemeMode,
+  VolumeUnit,
+  ZoneView,
+  useSettingsStore,
+  withDefaultSettings,
+} from '@/src/lib/settingsStore';
+import { createExport, DataImportError, parseExport, shareExport } from '@/src/lib/dataTransfer';
+import { formatHour, getNextReminder } from '@/src/lib/reminders';
+import { toDayKey } from '@/src/lib/dateRanges';
+import { GOAL_STEPS, UNIT_LABELS, formatVolume, roundForUnit, toMl } from '@/src/lib/units';
+import { BEVERAGE_LABELS, BEVERAGE_TYPES } from '@/src/lib/beverages';
+
+// Goal stepper limits, in ml
+const MIN_GOAL_ML = 250;
+const MAX_GOAL_ML = 7000;
+
+// Beverage stepper limits
+const FACTOR_STEP = 0.1;
+const MAX_FACTOR = 1.5;
+const CAFFEINE_STEP = 5;
+const MAX_CAFFEINE = 100;
+
+// Latest hour a logging day may start at
+const MAX_DAY_START_HOUR = 12;
+
+const VOLUME_UNITS: { value: VolumeUnit; label: string }[] = [
+  { value: 'cups', label: 'Cups' },
+  { value: 'ml', label: 'ml' },
+  { value: 'floz', label: 'fl oz' },
+];
+
+const THEME_MODES: { value: ThemeMode; label: string }[] = [
+  { value: 'system', label: 'System' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+];
+
+const ZONE_VIEWS: { value: ZoneView; label: string }[] = [
+  { value: 'current', label: 'Current zone' },
+  { value: 'logged', label: 'Zone logged in' },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const REMINDER_INTERVALS = [30, 60, 90, 120, 180];
+
+type DataAction = 'export' | 'import' | 'wipe';
+
+export default function SettingsScreen() {
+  const { theme } = useAppTheme();
+  const queryClient = useQueryClient();
+  const offlineMode = useOfflineModeStore((state) => state.enabled);
+  const setOfflineMode = useOfflineModeStore((state) => state.setEnabled);
+  const settings = useSettingsStore((state) => state.settings);
+  const settingsError = useSettingsStore((state) => state.error);
+  const updateSettings = useSettingsStore((state) => state.updateSettings);
+
+  const [busyAction, setBusyAction] = useState<DataAction | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [isConfirmingWipe, setIsConfirmingWipe] = useState(false);
+  const [dataMessage, setDataMessage] = useState<string | null>(null);
+  // Custom drink name being typed, saved once editing ends; null when idle
+  const [customNameDraft, setCustomNameDraft] = useState<string | null>(null);
+
+  // Failures are surfaced through the store's error
+  const saveSettings = (changes: Parameters<typeof updateSettings>[0]) => {
+    updateSettings(changes).catch(() => {});
+  };
+
+  const updateReminders = (changes: Partial<ReminderSchedule>) => {
+    saveSettings({ reminders: { ...settings.reminders, ...changes } });
+  };
+
+  const updateBeverage = (type: BeverageType, changes: Partial<BeverageProfile>) => {
+    saveSettings({ beverages: { ...settings.beverages, [type]: { ...settings.beverages[type], ...changes } } });
+  };
+
+  // Save the typed name in one write rather than one per keystroke
+  const commitCustomName = () => {
+    if (customNameDraft === null) return;
+    const name = customNameDraft.trim();
+    setCustomNameDraft(null);
+    if (name !== (settings.beverages.custom.name ?? '')) {
+      updateBeverage('custom', { name });
+    }
+  };
+
+  // Step in the preferred unit so the goal stays a round number in it
+  const handleGoalChange = (direction: 1 | -1) => {
+    const { volumeUnit, dailyGoalMl } = settings;
+    const stepped = toMl(roundForUnit(dailyGoalMl, volumeUnit) + direction * GOAL_STEPS[volumeUnit], volumeUnit);
+    const next = Math.min(MAX_GOAL_ML, Math.max(MIN_GOAL_ML, stepped));
+    console.log(`[ACTION] Setting daily goal to ${formatVolume(next, volumeUnit)}`);
+    saveSettings({ dailyGoalMl: next });
+  };
+
+  // Switching backends changes which entries and settings are visible
+  const handleOfflineModeChange = async (enabled: boolean) => {
+    await setOfflineMode(enabled);
+    queryClient.invalidateQueries({ queryKey: ['entries'] });
+    useSettingsStore.getState().loadSettings();
+  };
+
+  const handleExport = async () => {
+    setBusyAction('export');
+    setDataMessage(null);
+    try {
+      const entries = await useLogStore.getState().fetchAllEntries();
+      await shareExport(createExport(entries, settings), `waterlogger-${toDayKey(new Date())}.json`);
+      setDataMessage(`Exported ${entries.length} entries.`);
+    } catch (err) {
+      console.error('Error exporting data:', err);
+      setDataMessage('Export failed. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusyAction('import');
+    setDataMessage(null);
+    try {
+      const imported = parseExport(importText);
+      const count = await useLogStore.getState().importEntries(imported.entries);
+      if (imported.settings) {
+        await updateSettings(withDefaultSettings(imported.settings));
+      }
+      queryClient.invalidateQueries({ queryKey: ['entries'] });
+      setImportText('');
+      setIsImportOpen(false);
+      setDataMessage(`Imported ${count} entries.`);
+    } catch (err) {
+      console.error('Error importing data:', err);
+      setDataMessage(err instanceof DataImportError ? err.message : 'Import failed. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleWipe = async () => {
+    setIsConfirmingWipe(false);
+    setBusyAction('wipe');
+    setDataMessage(null);
+    try {
+      const count = await useLogStore.getState().wipeAllEntries();
+      queryClient.invalidateQueries({ queryKey: ['entries'] });
+      setDataMessage(`Deleted ${count} entries.`);
+    } catch (err) {
+      console.error('Error wiping data:', err);
+      setDataMessage('Deleting entries failed. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  // Create theme-based styles
+  const themeStyles = {
+    backgroundColor: theme === 'dark' ? '#121212' : '#f5f5f5',
+    cardColor: theme === 'dark' ? '#242424' : '#ffffff',
+    textColor: theme === 'dark' ? '#ffffff' : '#444444',
+    mutedColor: theme === 'dark' ? '#aaaaaa' : '#777777',
+    primaryColor: '#3b82f6',
+    buttonColor: theme === 'dark' ? '#333333' : '#e5e5e5',
+    buttonTextColor: theme === 'dark' ? '#ffffff' : '#333333',
+  };
+
+  const renderOptions = <T extends string | number>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={String(option.value)}
+          style={[
+            styles.optionButton,
+            { backgroundColor: option.value === selected ? themeStyles.primaryColor : themeStyles.buttonColor },
+          ]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={{ color: option.value === selected ? '#ffffff' : themeStyles.buttonTextColor }}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderStepper = (
+    value: string,
+    onDecrease: () => void,
+    onIncrease: () => void,
+    canDecrease: boolean,
+    canIncrease: boolean,
+    label: string
+  ) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={[styles.stepperButton, { backgroundColor: themeStyles.buttonColor, opacity: canDecrease ? 1 : 0.4 }]}
+        onPress={onDecrease}
+        disabled={!canDecrease}
+        accessibilityLabel={`Decrease ${label}`}
+      >
+        <Text style={[styles.stepperText, { color: themeStyles.buttonTextColor }]}>−</Text>
+      </TouchableOpacity>
+      <Text style={[styles.stepperValue, { color: themeStyles.textColor }]}>{value}</Text>
+      <TouchableOpacity
+        style={[styles.stepperButton, { backgroundColor: themeStyles.buttonColor, opacity: canIncrease ? 1 : 0.4 }]}
+        onPress={onIncrease}
+        disabled={!canIncrease}
+        accessibilityLabel={`Increase ${label}`}
+      >
+        <Text style={[styles.stepperText, { color: themeStyles.buttonTextColor }]}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const { reminders } = settings;
+  const nextReminder = getNextReminder(reminders);
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: themeStyles.backgroundColor }}
+      contentContainerStyle={styles.content}
+    >
+      {settingsError && <Text style={styles.errorText}>{settingsError}</Text>}
+
+      <Text style={[styles.sectionTitle, { color: themeStyles.mutedColor }]}>GOAL & UNITS</Text>
+      <View style={[styles.card, { backgroundColor: themeStyles.cardColor }]}>
+        <View style={styles.settingRow}>
+          <View style={styles.settingText}>
+            <Text style={[styles.settingLabel, { color: themeStyles.textColor }]}>Daily goal</Text>
+            <Text style={[styles.settingHint, { color: themeStyles.mutedColor }]}>
+              {`Water to aim for each day, in ${UNIT_LABELS[settings.volumeUnit]}.`}
+            </Text>
+          </View>
+          {renderStepper(
+            String(roundForUnit(settings.dailyGoalMl, settings.volumeUnit)),
+            () => handleGoalChange(-1),
+            () => handleGoalChange(1),
+            settings.dailyGoalMl > MIN_GOAL_ML,
+            settings.dailyGoalMl < MAX_GOAL_ML,
+            'daily goal'
+          )}
+        </View>
+        <Text style={[styles.settingHint, styles.spaced, { color: themeStyles.mutedColor }]}>
+          {"The day view's ideal pace spreads your goal over your waking hours."}
+        </Text>
+        <View style={[styles.settingRow, styles.spaced]}>
+          <Text style={[styles.settingLabel, styles.settingText, { color: themeStyles.textColor }]}>Awake from</Text>
+          {renderStepper(
+            formatHour(settings.wakeHour),
+            () => saveSettings({ wakeHour: settings.wakeHour - 1 }),
+            () => saveSettings({ wakeHour: settings.wakeHour + 1 }),
+            settings.wakeHour > 0,
+            settings.wakeHour < settings.bedHour - 1,
+            'wake hour'
+          )}
+        </View>
+        <View style={[styles.settingRow, styles.spaced]}>
+          <Text style={[styles.settingLabel, styles.settingText, { color: themeStyles.textColor }]}>Bedtime</Text>
+          {renderStepper(
+            formatHour(settings.bedHour),
+            () => saveSettings({ bedHour: settings.bedHour - 1 }),
+            () => saveSettings({ bedHour: settings.bedHour + 1 }),
+            settings.bedHour > settings.wakeHour + 1,
+            settings.bedHour < 23,
+            'bedtime'
+          )}
+        </View>
+        <Text style={[styles.settingLabel, styles.spaced, { color: themeStyles.textColor }]}>Volume unit</Text>
+        {renderOptions(VOLUME_UNITS, settings.volumeUnit, volumeUnit => saveSettings({ volumeUnit }))}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: themeStyles.mutedColor }]}>DRINKS</Text>
+      <View style={[styles.card, { backgroundColor: themeStyles.cardColor }]}>
+        <Text style={[styles.settingHint, { color: themeStyles.mutedColor }]}>
+          Hydration counts each ml towards your goal by this factor. Caffeine is per 100 ml.
+        </Text>
+        {BEVERAGE_TYPES.map(type => {
+          const profile = settings.beverages[type];
+          return (
+            <View key={type} style={[styles.settingRow, styles.spaced]}>
+              {type === 'custom' ? (
+                <TextInput
+                  style={[styles.settingText, styles.nameInput, { color: themeStyles.textColor, borderColor: themeStyles.buttonColor }]}
+                  value={customNameDraft ?? profile.name ?? ''}
+                  onChangeText={setCustomNameDraft}
+                  onBlur={commitCustomName}
+                  onSubmitEditing={commitCustomName}
+                  returnKeyType="done"
+                  placeholder={BEVERAGE_LABELS.custom}
+                  placeholderTextColor={themeStyles.mutedColor}
+                />
+              ) : (
+                <Text style={[styles.settingLabel, styles.settingText, { color: themeStyles.textColor }]}>
+                  {BEVERAGE_LABELS[type]}
+                </Text>
+              )}
+              {renderStepper(
+                `×${profile.hydrationFactor.toFixed(1)}`,
+                () => updateBeverage(type, { hydrationFactor: +(profile.hydrationFactor - FACTOR_STEP).toFixed(1) }),
+                () => updateBeverage(type, { hydrationFactor: +(profile.hydrationFactor + FACTOR_STEP).toFixed(1) }),
+                profile.hydrationFactor > 0,
+                profile.hydrationFactor < MAX_FACTOR,
+                `${BEVERAGE_LABELS[type]} hydration factor`
+              )}
+              {renderStepper(
+                `${profile.caffeineMgPer100Ml} mg`,
+                () => updateBeverage(type, { caffeineMgPer100Ml: profile.caffeineMgPer100Ml - CAFFEINE_STEP }),
+                () => updateBeverage(type, { caffeineMgPer100Ml: profile.caffeineMgPer100Ml + CAFFEINE_STEP }),
+                profile.caffeineMgPer100Ml > 0,
+                profile.caffeineMgPer100Ml < MAX_CAFFEINE,
+                `${BEVERAGE_LABELS[type]} caffeine`
+              )}
+            </View>
+          );
+        })}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: themeStyles.mutedColor }]}>APPEARANCE</Text>
+      <View style={[styles.card, { backgroundColor: themeStyles.cardColor }]}>
+        <Text style={[styles.settingLabel, { color: themeStyles.textColor }]}>Theme</Text>
+        {renderOptions(THEME_MODES, settings.themeMode, themeMode => saveSettings({ themeMode }))}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: themeStyles.mutedColor }]}>CALENDAR</Text>
+      <View style={[styles.card, { backgroundColor: themeStyles.cardColor }]}>
+        <Text style={[styles.settingLabel, { color: themeStyles.textColor }]}>Week starts on</Text>
+        {renderOptions(
+          WEEKDAYS.map((label, value) => ({ value, label })),
+          settings.weekStartDay,
+          weekStartDay => saveSettings({ weekStartDay })
+        )}
+        <View style={[styles.settingRow, styles.spaced]}>
+          <View style={styles.settingText}>
+            <Text style={[styles.settingLabel, { color: themeStyles.textColor }]}>Day starts at</Text>
+            <Text style={[styles.settingHint, { color: themeStyles.mutedColor }]}>
+              Late-night drinks before this hour count towards the previous day.
+            </Text>
+          </View>
+          {renderStepper(
+            formatHour(settings.dayStartHour),
+            () => saveSettings({ dayStartHour: settings.dayStartHour - 1 }),
+            () => saveSettings({ dayStartHour: settings.dayStartHour + 1 }),
+            settings.dayStartHour > 0,
+            settings.dayStartHour < MAX_DAY_START_HOUR,
+            'day start hour'
+          )}
+        </View>
+        <Text style={[styles.settingLabel, styles.spaced, { color: themeStyles.textColor }]}>Show entries in</Text>
+        <Text style={[styles.settingHint, { color: themeStyles.mutedColor }]}>
+          Pick the zone logged in to keep days from shifting after travelling.
+        </Text>
+        {renderOptions(ZONE_VIEWS, settings.zoneView, zoneView => saveSettings({ zoneView }))}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: themeStyles.mutedColor }]}>REMINDERS</Text>
+      <View style={[styles.card, { backgroundColor: themeStyles.cardColor }]}>
+        <View style={styles.settingRow}>
+          <View style={styles.settingText}>
+            <Text style={[styles.settingLabel, { color: themeStyles.textColor }]}>Remind me to drink</Text>
+            <Text style={[styles.settingHint, { color: themeStyles.mutedColor }]}>
+              {reminders.enabled && nextReminder
+                ? `Next reminder at ${nextReminder.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+                : 'Shown while the app is open.'}
+            </Text>
+          </View>
+          <Switch value={reminders.enabled} onValueChange={enabled => updateReminders({ enabled })} />
+        </View>
+        {reminders.enabled && (
+          <>
+            <View style={[styles.settingRow, styles.spaced]}>
+              <Text style={[styles.settingLabel, styles.settingText, { color: themeStyles.textColor }]}>From</Text>
+              {renderStepper(
+                formatHour(reminders.startHour),
+                () => updateReminders({ startHour: reminders.startHour - 1 }),
+                () => updateReminders({ startHour: reminders.startHour + 1 }),
+                reminders.startHour > 0,
+                reminders.startHour < reminders.endHour,
+                'reminder start'
+              )}
+            </View>
+            <View style={[styles.settingRow, styles.spaced]}>
+              <Text style={[styles.settingLabel, styles.settingText, { color: themeStyles.textColor }]}>Until</Text>
+              {renderStepper(
+                formatHour(reminders.endHour),
+                () => updateReminders({ endHour: reminders.endHour - 1 }),
+                () => updateReminders({ endHour: reminders.endHour + 1 }),
+                reminders.endHour > reminders.startHour,
+                reminders.endHour < 23,
+                'reminder end'
+              )}
+            </View>
+            <Text style={[styles.settingLabel, styles.spaced, { color: themeStyles.textColor }]}>Every</Text>
+            {renderOptions(
+              REMINDER_INTERVALS.map(value => ({
+                value,
+                label: value < 60 ? `${value} min` : `${+(value / 60).toFixed(1)} h`,
+              })),
+              reminders.intervalMinutes,
+              intervalMinutes => updateReminders({ intervalMinutes })
+            )}
+          </>
+        )}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: themeStyles.mutedColor }]}>ACCOUNT</Text>
+      <View style={[styles.card, { backgroundColor: themeStyles.cardColor }]}>
+        <View style={styles.settingRow}>
+          <View style={styles.settingText}>
+            <Text style={[styles.settingLabel, { color: themeStyles.textColor }]}>Use without an account</Text>
+            <Text style={[styles.settingHint, { color: themeStyles.mutedColor }]}>
+              Keep your log on this device only. Nothing is synced.
+            </Text>
+          </View>
+          <Switch value={offlineMode} onValueChange={handleOfflineModeChange} />
+        </View>
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: themeStyles.mutedColor }]}>DATA</Text>
+      <View style={[styles.card, { backgroundColor: themeStyles.cardColor }]}>
+        <View style={styles.optionRow}>
+          <TouchableOpacity
+            style={[styles.dataButton, { backgroundColor: themeStyles.buttonColor }]}
+            onPress={handleExport}
+            disabled={busyAction !== null}
+          >
+            <Text style={{ color: themeStyles.buttonTextColor }}>
+              {busyAction === 'export' ? 'Exporting…' : 'Export'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.dataButton, { backgroundColor: themeStyles.buttonColor }]}
+            onPress={() => setIsImportOpen(!isImportOpen)}
+            disabled={busyAction !== null}
+          >
+            <Text style={{ color: themeStyles.buttonTextColor }}>Import</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.dataButton, styles.deleteButton]}
+            onPress={() => setIsConfirmingWipe(true)}
+            disabled={busyAction !== null}
+          >
+            <Text style={styles.deleteText}>{busyAction === 'wipe' ? 'Deleting…' : 'Delete all'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {isImportOpen && (
+          <View style={styles.spaced}>
+            <Text style={[styles.settingHint, { color: themeStyles.mutedColor }]}>
+              Paste the contents of an export file. Entries already on this account are kept.
+            </Text>
+            <TextInput
+              style={[styles.importInput, { color: themeStyles.textColor, borderColor: themeStyles.buttonColor }]}
+              value={importText}
+              onChangeText={setImportText}
+              placeholder="{ ... }"
+              placeholderTextColor={themeStyles.mutedColor}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={[styles.dataButton, { backgroundColor: themeStyles.primaryColor, opacity: importText ? 1 : 0.5 }]}
+              onPress={handleImport}
+              disabled={!importText || busyAction !== null}
+            >
+              <Text style={styles.deleteText}>{busyAction === 'import' ? 'Importing…' : 'Import entries'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {isConfirmingWipe && (
+          <View style={[styles.settingRow, styles.spaced]}>
+            <Text style={[styles.settingText, { color: themeStyles.textColor }]}>
+              Delete every entry? This cannot be undone.
+            </Text>
+            <TouchableOpacity
+              style={[styles.dataButton, { backgroundColor: themeStyles.buttonColor }]}
+              onPress={() => setIsConfirmingWipe(false)}
+            >
+              <Text style={{ color: themeStyles.buttonTextColor }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.dataButton, styles.deleteButton]} onPress={handleWipe}>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {dataMessage && (
+          <Text style={[styles.settingHint, styles.spaced, { color: themeStyles.mutedColor }]}>{dataMessage}</Text>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    paddingBottom: 80,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 6,
+    marginLeft: 4,
+  },
+  card: {
+    borderRadius: 8,
+    padding: 12,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  settingText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  settingHint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  spaced: {
+    marginTop: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  optionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  dataButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 4,
+    marginRight: 8,
+    marginBottom: 8,
+    alignItems: 'center',
+  },
+  deleteButton: {
+    backgroundColor: '#ef4444',
+  },
+  deleteText: {
+    color: '#ffffff',
+    fontWeight: '500',
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 16,
+  },
+  importInput: {
+    minHeight: 100,
+    borderWidth: 1,
+    borderRadius: 4,
+    padding: 8,
+    marginVertical: 8,
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    color: '#ef4444',
+    marginBottom: 8,
+  },
+});
@@ -10,6 +10,8 @@ import { useColorScheme } from '@/components/useColorScheme';
 import { User } from 'firebase/auth';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { signInAnonymous, useFirebaseAuth } from '../src/lib/firebase';
+import { useOfflineModeStore } from '../src/lib/offlineMode';
+import { useSettingsStore } from '../src/lib/settingsStore';
 
 // Import global.css for web only
 if (Platform.OS === 'web') {
@@ -22,7 +24,7 @@ export {
 } from 'expo-router';
 
 export const unstable_settings = {
-  // Ensure that reloading on `/modal` keeps a back button present.
+  // Ensure that reloading on `/add-entry` keeps a back button present.
   initialRouteName: '(tabs)',
 };
 
@@ -35,12 +37,19 @@ const queryClient = new QueryClient();
 export default function RootLayout() {
   const [user, setUser] = useState<User | null>(null);
   const [isAuthReady, setIsAuthReady] = useState(false);
+  const offlineMode = useOfflineModeStore((state) => state.enabled);
+  const isOfflineModeReady = useOfflineModeStore((state) => state.isHydrated);
 
   const [loaded, error] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
     ...FontAwesome.font,
   });
 
+  // Restore the "no account" preference before touching auth
+  useEffect(() => {
+    useOfflineModeStore.getState().hydrate();
+  }, []);
+
   // Initialize Firebase Auth
   useEffect(() => {
     useFirebaseAuth((user) => {
@@ -49,12 +58,19 @@ export default function RootLayout() {
     });
   }, []);
 
-  // Sign in anonymously if no user
+  // Sign in anonymously if no user, unless the app is used without an account
   useEffect(() => {
-    if (isAuthReady && !user) {
+    if (isAuthReady && isOfflineModeReady && !offlineMode && !user) {
       signInAnonymous().catch(console.error);
     }
-  }, [isAuthReady, user]);
+  }, [isAuthReady, isOfflineModeReady, offlineMode, user]);
+
+  // Load settings once the active backend and user are known
+  useEffect(() => {
+    if (isAuthReady && isOfflineModeReady) {
+      useSettingsStore.getState().loadSettings();
+    }
+  }, [isAuthReady, isOfflineModeReady, offlineMode, user]);
 
   // Expo Router uses Error Boundaries to catch errors in the navigation tree.
   useEffect(() => {
@@ -62,12 +78,12 @@ export default function RootLayout() {
   }, [error]);
 
   useEffect(() => {
-    if (loaded && isAuthReady) {
+    if (loaded && isAuthReady && isOfflineModeReady) {
       SplashScreen.hideAsync();
     }
-  }, [loaded, isAuthReady]);
+  }, [loaded, isAuthReady, isOfflineModeReady]);
 
-  if (!loaded || !isAuthReady) {
+  if (!loaded || !isAuthReady || !isOfflineModeReady) {
     return null;
   }
 
@@ -85,7 +101,7 @@ function RootLayoutNav() {
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="add-entry" options={{ presentation: 'modal', title: 'Log water' }} />
       </Stack>
     </ThemeProvider>
   );
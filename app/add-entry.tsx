@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { Platform, ScrollView, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { useColorScheme } from '@/components/useColorScheme';
+import { useEntryMutations } from '@/src/lib/useEntries';
+import { useSettingsStore } from '@/src/lib/settingsStore';
+import { UNIT_LABELS, UNIT_PRESETS, formatAmount, roundForUnit, toMl } from '@/src/lib/units';
+import { BEVERAGE_TYPES, getBeverageLabel } from '@/src/lib/beverages';
+import { BeverageType } from '@/src/lib/storage';
+
+const FATIGUE_LEVELS = [1, 2, 3, 4, 5];
+const FATIGUE_LABELS: Record<number, string> = {
+  1: 'Fresh',
+  2: 'Good',
+  3: 'Okay',
+  4: 'Tired',
+  5: 'Drained',
+};
+
+// Shortcuts for logging something that happened earlier, in minutes ago
+const TIME_PRESETS = [0, 30, 60, 120, 180];
+
+const formatOffset = (minutesAgo: number) => {
+  if (minutesAgo === 0) return 'Now';
+  if (minutesAgo < 60) return `${minutesAgo}m ago`;
+  return `${minutesAgo / 60}h ago`;
+};
+
+// Route params passed when editing an existing entry from the history list
+type EditParams = {
+  id?: string;
+  amountMl?: string;
+  beverage?: BeverageType;
+  fatigue?: string;
+  timestamp?: string;
+};
+
+// Whole minutes between a past time and now
+const minutesSince = (time: number) => Math.max(0, Math.round((Date.now() - time) / (60 * 1000)));
+
+export default function AddEntryScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const params = useLocalSearchParams<EditParams>();
+  const { addEntryAsync, updateEntryAsync } = useEntryMutations();
+  const unit = useSettingsStore((state) => state.settings.volumeUnit);
+  const beverages = useSettingsStore((state) => state.settings.beverages);
+  const presets = UNIT_PRESETS[unit];
+
+  const isEditing = !!params.id;
+  const initialMl = params.amountMl ? parseFloat(params.amountMl) : null;
+  // Amounts are entered in the preferred unit; the second preset is about a cup
+  const initialAmount = initialMl !== null ? roundForUnit(initialMl, unit) : presets[1];
+  const initialMinutesAgo = params.timestamp ? minutesSince(Number(params.timestamp)) : 0;
+
+  const [presetAmount, setPresetAmount] = useState<number | null>(
+    presets.includes(initialAmount) ? initialAmount : null
+  );
+  const [customAmount, setCustomAmount] = useState(
+    presets.includes(initialAmount) ? '' : String(initialAmount)
+  );
+  const [beverage, setBeverage] = useState<BeverageType>(params.beverage ?? 'water');
+  const [fatigue, setFatigue] = useState(params.fatigue ? Number(params.fatigue) : 3);
+  const [minutesAgo, setMinutesAgo] = useState(initialMinutesAgo);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const primaryColor = '#3b82f6';
+  const chipColor = colorScheme === 'dark' ? '#333333' : '#e5e5e5';
+  const inputTextColor = colorScheme === 'dark' ? '#ffffff' : '#000000';
+
+  const amount = customAmount ? parseFloat(customAmount.replace(',', '.')) : presetAmount;
+  const isAmountValid = amount !== null && Number.isFinite(amount) && amount > 0;
+
+  // An untouched amount keeps its stored value instead of a rounded conversion
+  const amountMl = initialMl !== null && amount === initialAmount ? initialMl : toMl(amount ?? 0, unit);
+
+  const entryTime = new Date(Date.now() - minutesAgo * 60 * 1000);
+
+  const handleSubmit = async () => {
+    if (!isAmountValid || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (isEditing) {
+        await updateEntryAsync({
+          id: params.id as string,
+          entry: {
+            amountMl,
+            beverage,
+            fatigue,
+            // Keep the original time to the second unless it was changed
+            ...(minutesAgo !== initialMinutesAgo && { timestamp: entryTime }),
+          },
+        });
+      } else {
+        await addEntryAsync({
+          amountMl,
+          beverage,
+          fatigue,
+          // Only send a timestamp when backfilling so "now" is taken at save time
+          ...(minutesAgo > 0 && { timestamp: entryTime }),
+        });
+      }
+      router.back();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${isEditing ? 'update' : 'add'} entry`);
+      setIsSubmitting(false);
+    }
+  };
+
+  // Render a selectable chip
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, { backgroundColor: selected ? primaryColor : chipColor }]}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: isEditing ? 'Edit entry' : 'Log water' }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Amount ({UNIT_LABELS[unit]})</Text>
+        <View style={styles.chipRow}>
+          {presets.map(preset =>
+            renderChip(`amount-${preset}`, `${preset}`, !customAmount && presetAmount === preset, () => {
+              setPresetAmount(preset);
+              setCustomAmount('');
+            })
+          )}
+        </View>
+        <TextInput
+          value={customAmount}
+          onChangeText={setCustomAmount}
+          placeholder="Custom amount"
+          placeholderTextColor="#888888"
+          keyboardType="decimal-pad"
+          style={[styles.input, { color: inputTextColor, borderColor: chipColor }]}
+        />
+
+        <Text style={styles.sectionTitle}>Drink</Text>
+        <View style={styles.chipRow}>
+          {BEVERAGE_TYPES.map(type =>
+            renderChip(`beverage-${type}`, getBeverageLabel(type, beverages), beverage === type, () =>
+              setBeverage(type)
+            )
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Fatigue</Text>
+        <View style={styles.chipRow}>
+          {FATIGUE_LEVELS.map(level =>
+            renderChip(`fatigue-${level}`, `${level} · ${FATIGUE_LABELS[level]}`, fatigue === level, () =>
+              setFatigue(level)
+            )
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>When</Text>
+        <View style={styles.chipRow}>
+          {TIME_PRESETS.map(offset =>
+            renderChip(`time-${offset}`, formatOffset(offset), minutesAgo === offset, () =>
+              setMinutesAgo(offset)
+            )
+          )}
+        </View>
+        <View style={styles.timeRow}>
+          {renderChip('earlier', '− 15 min', false, () => setMinutesAgo(m => m + 15))}
+          <Text style={styles.timeText}>
+            {minutesAgo === 0
+              ? 'Now'
+              : entryTime.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+          </Text>
+          {renderChip('later', '+ 15 min', false, () => setMinutesAgo(m => Math.max(0, m - 15)))}
+        </View>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <TouchableOpacity
+          onPress={handleSubmit}
+          disabled={!isAmountValid || isSubmitting}
+          style={[
+            styles.submitButton,
+            { backgroundColor: primaryColor },
+            (!isAmountValid || isSubmitting) && styles.submitDisabled,
+          ]}
+        >
+          <Text style={styles.submitText}>
+            {isSubmitting
+              ? 'Saving…'
+              : isAmountValid
+                ? `${isEditing ? 'Save' : 'Log'} ${formatAmount(amount as number, unit)}`
+                : 'Enter an amount'}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {/* Use a light status bar on iOS to account for the black space above the modal */}
+      <StatusBar style={Platform.OS === 'ios' ? 'light' : 'auto'} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: 'transparent',
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 4,
+    margin: 4,
+  },
+  chipText: {
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    margin: 4,
+    fontSize: 16,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'transparent',
+  },
+  timeText: {
+    fontSize: 14,
+  },
+  errorText: {
+    color: '#ef4444',
+    marginTop: 16,
+  },
+  submitButton: {
+    marginTop: 24,
+    paddingVertical: 12,
+    borderRadius: 4,
+    alignItems: 'center',
+  },
+  submitDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    color: '#ffffff',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,118 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { PeriodSummary } from '@/components/chart/chartUtils';
+import { VolumeUnit } from '@/src/lib/storage';
+import { formatVolume } from '@/src/lib/units';
+
+interface ComparisonSummaryProps {
+  current: PeriodSummary;
+  previous: PeriodSummary;
+  // Shown as "vs <label>"
+  previousLabel: string;
+  unit: VolumeUnit;
+  textColor: string;
+  mutedColor: string;
+}
+
+const BETTER_COLOR = '#16a34a';
+const WORSE_COLOR = '#dc2626';
+
+// Signed change, e.g. "+1.5 cups" or "−0.3"
+const formatDelta = (delta: number, format: (value: number) => string) =>
+  `${delta < 0 ? '−' : '+'}${format(Math.abs(delta))}`;
+
+// Change in intake and fatigue against the window before the one on screen
+export default function ComparisonSummary({
+  current,
+  previous,
+  previousLabel,
+  unit,
+  textColor,
+  mutedColor,
+}: ComparisonSummaryProps) {
+  const fatigueDelta = current.meanFatigue !== null && previous.meanFatigue !== null
+    ? current.meanFatigue - previous.meanFatigue
+    : null;
+
+  // More water is better, more fatigue is worse
+  const stats = [
+    {
+      label: 'Total',
+      value: formatVolume(current.totalMl, unit),
+      delta: current.totalMl - previous.totalMl,
+      format: (ml: number) => formatVolume(ml, unit),
+      higherIsBetter: true,
+    },
+    {
+      label: 'Daily average',
+      value: formatVolume(current.dailyAverageMl, unit),
+      delta: current.dailyAverageMl - previous.dailyAverageMl,
+      format: (ml: number) => formatVolume(ml, unit),
+      higherIsBetter: true,
+    },
+    {
+      label: 'Fatigue',
+      value: current.meanFatigue === null ? '–' : current.meanFatigue.toFixed(1),
+      delta: fatigueDelta,
+      format: (value: number) => value.toFixed(1),
+      higherIsBetter: false,
+    },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.caption, { color: mutedColor }]}>vs {previousLabel}</Text>
+      <View style={styles.row}>
+        {stats.map(stat => (
+          <View key={stat.label} style={styles.stat}>
+            <Text style={[styles.label, { color: mutedColor }]}>{stat.label}</Text>
+            <Text style={[styles.value, { color: textColor }]}>{stat.value}</Text>
+            {stat.delta !== null && (
+              <Text
+                style={[
+                  styles.delta,
+                  {
+                    color: stat.delta === 0
+                      ? mutedColor
+                      : (stat.delta > 0) === stat.higherIsBetter ? BETTER_COLOR : WORSE_COLOR,
+                  },
+                ]}
+              >
+                {formatDelta(stat.delta, stat.format)}
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  caption: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  stat: {
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 12,
+  },
+  value: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  delta: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,71 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Insight, InsightConfidence } from '@/src/lib/insights';
+
+interface InsightCardsProps {
+  insights: Insight[];
+  cardColor: string;
+  textColor: string;
+  mutedColor: string;
+}
+
+const CONFIDENCE_LABELS: Record<InsightConfidence, string> = {
+  insufficient: 'Needs more data',
+  low: 'Low confidence',
+  medium: 'Medium confidence',
+  high: 'High confidence',
+};
+
+// Plain-language findings about intake and fatigue, shown under the chart
+export default function InsightCards({ insights, cardColor, textColor, mutedColor }: InsightCardsProps) {
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.heading, { color: mutedColor }]}>INSIGHTS</Text>
+      {insights.map(insight => (
+        <View key={insight.id} style={[styles.card, { backgroundColor: cardColor }]}>
+          <View style={styles.titleRow}>
+            <Text style={[styles.title, { color: textColor }]}>{insight.title}</Text>
+            <Text style={[styles.confidence, { color: mutedColor }]}>
+              {CONFIDENCE_LABELS[insight.confidence]}
+            </Text>
+          </View>
+          <Text style={[styles.summary, { color: textColor }]}>{insight.summary}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  heading: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 6,
+    marginLeft: 4,
+  },
+  card: {
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  confidence: {
+    fontSize: 12,
+  },
+  summary: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSettingsStore } from '@/src/lib/settingsStore';
+import { getNextReminder } from '@/src/lib/reminders';
+
+// Banner shown while the app is open whenever a scheduled reminder comes due
+export default function ReminderBanner() {
+  const router = useRouter();
+  const schedule = useSettingsStore((state) => state.settings.reminders);
+  const [isDue, setIsDue] = useState(false);
+
+  // Wait for the next reminder; rescheduled whenever the schedule changes or
+  // the current one is handled
+  useEffect(() => {
+    if (isDue) return;
+    const next = getNextReminder(schedule);
+    if (!next) return;
+
+    const timer = setTimeout(() => setIsDue(true), next.getTime() - Date.now());
+    return () => clearTimeout(timer);
+  }, [schedule, isDue]);
+
+  if (!isDue) return null;
+
+  const handleLog = () => {
+    setIsDue(false);
+    router.push('/add-entry');
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message}>Time for some water</Text>
+      <TouchableOpacity onPress={handleLog} style={styles.button}>
+        <Text style={styles.logText}>LOG</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => setIsDue(false)} style={styles.button}>
+        <Text style={styles.dismissText}>DISMISS</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 72,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+    backgroundColor: '#1e3a5f',
+    elevation: 4,
+  },
+  message: {
+    color: '#ffffff',
+    flex: 1,
+  },
+  button: {
+    marginLeft: 16,
+  },
+  logText: {
+    color: '#60a5fa',
+    fontWeight: 'bold',
+  },
+  dismissText: {
+    color: '#aaaaaa',
+    fontWeight: 'bold',
+  },
+});
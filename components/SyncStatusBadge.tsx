@@ -0,0 +1,51 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { useLogStore } from '@/src/lib/logStore';
+
+interface SyncStatusBadgeProps {
+  textColor: string;
+}
+
+const describeChanges = (count: number) => `${count} change${count === 1 ? '' : 's'}`;
+
+// Small status line for writes that have not reached the server yet, or
+// that the server refused
+export default function SyncStatusBadge({ textColor }: SyncStatusBadgeProps) {
+  const syncStatus = useLogStore((state) => state.syncStatus);
+  const syncNow = useLogStore((state) => state.syncNow);
+
+  if (syncStatus.state === 'idle' && syncStatus.failedCount === 0) return null;
+
+  const changes = describeChanges(syncStatus.pendingCount);
+  const pendingMessage = {
+    idle: null,
+    syncing: `Syncing ${changes}…`,
+    pending: `${changes} waiting to sync`,
+    offline: `Offline – ${changes} saved on this device. Tap to retry.`,
+  }[syncStatus.state];
+  const failedMessage = syncStatus.failedCount > 0
+    ? `${describeChanges(syncStatus.failedCount)} could not be saved to your account`
+    : null;
+  const message = [pendingMessage, failedMessage].filter(Boolean).join(' · ');
+
+  return (
+    <TouchableOpacity
+      onPress={syncNow}
+      disabled={syncStatus.state !== 'offline'}
+      style={styles.container}
+    >
+      <Text style={[styles.text, { color: textColor }]}>{message}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  text: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,58 @@
+import React, { useEffect } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface UndoSnackbarProps {
+  message: string | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+  // How long the snackbar stays up before dismissing itself
+  duration?: number;
+}
+
+// Bottom bar offering to undo the last destructive action
+export default function UndoSnackbar({ message, onUndo, onDismiss, duration = 5000 }: UndoSnackbarProps) {
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, duration]);
+
+  if (!message) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message}>{message}</Text>
+      <TouchableOpacity onPress={onUndo} style={styles.undoButton}>
+        <Text style={styles.undoText}>UNDO</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+    backgroundColor: '#323232',
+    elevation: 4,
+  },
+  message: {
+    color: '#ffffff',
+    flex: 1,
+  },
+  undoButton: {
+    marginLeft: 16,
+  },
+  undoText: {
+    color: '#60a5fa',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,204 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { HeatmapCell, HeatmapData } from './chartUtils';
+
+interface CalendarHeatmapProps {
+  theme: 'light' | 'dark';
+  data: HeatmapData;
+  // Mark each day with a dot coloured by its mean fatigue
+  showFatigue?: boolean;
+  // Called with the logical day of the cell that was tapped
+  onDayPress?: (day: Date) => void;
+}
+
+// Side of one cell in the year layout; month cells stretch to fit
+const YEAR_CELL_SIZE = 12;
+
+const GOAL_MET_COLOR = 'rgba(34, 197, 94, 0.8)';
+
+// Fatigue 1 (rested) to 5 (exhausted)
+const FATIGUE_COLORS = ['#22c55e', '#84cc16', '#eab308', '#f97316', '#ef4444'];
+
+const getCellColor = (cell: HeatmapCell, emptyColor: string) => {
+  if (cell.goalRatio === null) return 'transparent';
+  if (cell.goalRatio >= 1) return GOAL_MET_COLOR;
+  if (cell.goalRatio === 0) return emptyColor;
+  return `rgba(53, 162, 235, ${(0.2 + 0.6 * cell.goalRatio).toFixed(2)})`;
+};
+
+const describeCell = (cell: HeatmapCell) =>
+  cell.goalRatio === null
+    ? cell.day.toLocaleDateString()
+    : `${cell.day.toLocaleDateString()}: ${Math.round(cell.goalRatio * 100)}% of goal`;
+
+// Days shaded by how much of the goal was reached, as a month or a year
+export default function CalendarHeatmap({ theme, data, showFatigue = false, onDayPress }: CalendarHeatmapProps) {
+  const textColor = theme === 'dark' ? '#ffffff' : '#333333';
+  const mutedColor = theme === 'dark' ? '#aaaaaa' : '#777777';
+  const emptyColor = theme === 'dark' ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.06)';
+  const isMonth = data.layout === 'month';
+
+  // Cells by position, with gaps before the first and after the last day
+  const grid: (HeatmapCell | undefined)[][] = Array.from({ length: data.rows }, () => Array(data.columns).fill(undefined));
+  for (const cell of data.cells) {
+    grid[cell.row][cell.column] = cell;
+  }
+
+  const renderCell = (cell: HeatmapCell | undefined, key: number) => {
+    const cellStyle = isMonth ? styles.monthCell : styles.yearCell;
+    if (!cell) return <View key={key} style={cellStyle} />;
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[cellStyle, { backgroundColor: getCellColor(cell, emptyColor) }]}
+        onPress={() => onDayPress?.(cell.day)}
+        disabled={cell.goalRatio === null}
+        accessibilityLabel={describeCell(cell)}
+      >
+        {isMonth && (
+          <Text style={[styles.dayNumber, { color: cell.goalRatio === null ? mutedColor : textColor }]}>
+            {cell.day.getDate()}
+          </Text>
+        )}
+        {showFatigue && cell.fatigue !== null && (
+          <View
+            style={[
+              isMonth ? styles.monthDot : styles.yearDot,
+              { backgroundColor: FATIGUE_COLORS[Math.round(cell.fatigue) - 1] },
+            ]}
+          />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const legend = (
+    <View style={styles.legend}>
+      <View style={[styles.swatch, { backgroundColor: emptyColor }]} />
+      <Text style={[styles.legendText, { color: mutedColor }]}>None</Text>
+      <View style={[styles.swatch, { backgroundColor: 'rgba(53, 162, 235, 0.5)' }]} />
+      <Text style={[styles.legendText, { color: mutedColor }]}>Part of goal</Text>
+      <View style={[styles.swatch, { backgroundColor: GOAL_MET_COLOR }]} />
+      <Text style={[styles.legendText, { color: mutedColor }]}>Goal met</Text>
+      {showFatigue && (
+        <Text style={[styles.legendText, { color: mutedColor }]}>Dots: fatigue, green to red</Text>
+      )}
+    </View>
+  );
+
+  if (isMonth) {
+    return (
+      <View>
+        <View style={styles.row}>
+          {data.weekdayLabels.map((label, i) => (
+            <Text key={i} style={[styles.weekdayLabel, styles.monthHeader, { color: mutedColor }]}>{label}</Text>
+          ))}
+        </View>
+        {grid.map((row, i) => (
+          <View key={i} style={styles.row}>
+            {row.map(renderCell)}
+          </View>
+        ))}
+        {legend}
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <View>
+          <View style={styles.yearCell} />
+          {data.weekdayLabels.map((label, i) => (
+            <Text key={i} style={[styles.weekdayLabel, styles.yearCell, { color: mutedColor }]}>{label}</Text>
+          ))}
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View>
+            <View style={styles.row}>
+              {data.columnLabels.map((label, i) => (
+                <View key={i} style={styles.yearCell}>
+                  {label && <Text style={[styles.monthLabel, { color: mutedColor }]}>{label}</Text>}
+                </View>
+              ))}
+            </View>
+            {grid.map((row, i) => (
+              <View key={i} style={styles.row}>
+                {row.map(renderCell)}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+      {legend}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+  },
+  monthCell: {
+    flex: 1,
+    aspectRatio: 1,
+    margin: 2,
+    borderRadius: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  yearCell: {
+    width: YEAR_CELL_SIZE,
+    height: YEAR_CELL_SIZE,
+    margin: 1,
+    borderRadius: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayNumber: {
+    fontSize: 12,
+  },
+  monthDot: {
+    position: 'absolute',
+    bottom: 4,
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  yearDot: {
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+  },
+  monthHeader: {
+    flex: 1,
+    marginHorizontal: 2,
+    marginBottom: 2,
+  },
+  weekdayLabel: {
+    fontSize: 10,
+    textAlign: 'center',
+  },
+  monthLabel: {
+    position: 'absolute',
+    left: 0,
+    width: YEAR_CELL_SIZE * 3,
+    fontSize: 10,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 11,
+    marginRight: 10,
+  },
+});
@@ -3,17 +3,14 @@ import { StyleSheet, View, ActivityIndicator } from 'react-native';
 import { useColorScheme } from '@/components/useColorScheme';
 import { ChartData, processEntriesForChart } from './chartUtils';
 import { WaterLogEntry } from '@/src/lib/logStore';
-import Chart from 'chart.js/auto';
+import { TimeSpan } from '@/src/lib/timeSpans';
+import { buildChartSpec, getChartColors } from './chartSpec';
+import Chart, { ChartConfiguration } from 'chart.js/auto';
 import { MotiView } from 'moti';
-import resolveConfig from "tailwindcss/resolveConfig";
-import tailwindConfig from "../../tailwind.config";
-
-// Resolve tailwind config
-const tw = resolveConfig(tailwindConfig).theme;
 
 // Chart configuration type
 interface ChartConfig {
-  timespan: 'day' | 'week' | 'twoweeks' | 'month';
+  timespan: TimeSpan;
   showWater: boolean;
   showFatigue: boolean;
   theme: 'light' | 'dark';
@@ -22,11 +19,11 @@ interface ChartConfig {
 // Props for the chart component
 interface ChartViewProps {
   entries: WaterLogEntry[];
-  timespan: 'day' | 'week' | 'twoweeks' | 'month';
+  timespan: TimeSpan;
   showWater?: boolean;
   showFatigue?: boolean;
   isLoading?: boolean;
-  onTimespanChange?: (timespan: 'day' | 'week' | 'twoweeks' | 'month') => void;
+  onTimespanChange?: (timespan: TimeSpan) => void;
 }
 
 // Add these constants at the top of the component
@@ -47,14 +44,17 @@ const ChartView: React.FC<ChartViewProps> = ({
   const colorScheme = useColorScheme();
   
   // Process entries for chart
-  const chartData = useMemo(() => {
+  const chartData = useMemo((): ChartData => {
     if (entries.length === 0) {
       // Return demo data if no entries
       console.log("Using demo data for chart");
       return {
         labels: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
         waterData: [1.5, 2.2, 1.8, 0, 2.5, 1.2, 2.0],
-        fatigueData: [3, 2, 4, 5, 2, 1, 3]
+        effectiveData: [1.5, 2.2, 1.8, 0, 2.5, 1.2, 2.0],
+        fatigueData: [3, 2, 4, 5, 2, 1, 3],
+        beverageSeries: [],
+        waterLabel: 'Water (cups)',
       };
     }
     return processEntriesForChart(entries, timespan);
@@ -72,115 +72,7 @@ const ChartView: React.FC<ChartViewProps> = ({
   useEffect(() => {
     if (!canvasRef.current) return;
     
-    // Compute colors per theme based on Tailwind
-    const bgColor = chartConfig.theme === 'dark' ? tw.colors.gray[900] : '#ffffff';
-    const textColor = chartConfig.theme === 'dark' ? '#ffffff' : '#333333';
-    const gridColor = chartConfig.theme === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)';
-    const barColor = chartConfig.theme === 'dark' ? tw.colors.blue[400] : tw.colors.blue[600];
-    const lineColor = chartConfig.theme === 'dark' ? tw.colors.yellow[300] : tw.colors.yellow[600];
-    
-    // Dataset configurations
-    const datasets = [];
-    
-    if (chartConfig.showWater) {
-      datasets.push({
-        label: 'Water (cups)',
-        data: chartData.waterData,
-        backgroundColor: barColor,
-        borderColor: 'rgba(53, 162, 235, 1)',
-        borderWidth: 1,
-        yAxisID: 'y',
-      });
-    }
-    
-    if (chartConfig.showFatigue) {
-      datasets.push({
-        label: 'Fatigue (1-5)',
-        data: chartData.fatigueData,
-        type: 'line',
-        fill: false,
-        borderColor: lineColor,
-        borderWidth: 2,
-        pointRadius: 3,
-        pointBackgroundColor: lineColor,
-        yAxisID: 'y1',
-      });
-    }
-    
-    // Configuration for the chart
-    const config = {
-      type: 'bar',
-      data: {
-        labels: chartData.labels,
-        datasets
-      },
-      options: {
-        responsive: true,
-        animation: false,
-        maintainAspectRatio: false,
-        scales: {
-          y: {
-            beginAtZero: true,
-            title: {
-              display: true,
-              text: 'Water (cups)',
-              color: textColor
-            },
-            grid: {
-              color: gridColor
-            },
-            ticks: {
-              color: textColor
-            }
-          },
-          ...(chartConfig.showFatigue ? {
-            y1: {
-              position: 'right',
-              beginAtZero: true,
-              min: 0,
-              max: 5,
-              title: {
-                display: true,
-                text: 'Fatigue Level',
-                color: textColor
-              },
-              grid: {
-                display: false
-              },
-              ticks: {
-                color: textColor,
-                stepSize: 1
-              }
-            }
-          } : {}),
-          x: {
-            grid: {
-              color: gridColor
-            },
-            ticks: {
-              color: textColor,
-              maxRotation: 45,
-              minRotation: 45
-            }
-          }
-        },
-        plugins: {
-          title: {
-            display: true,
-            text: `Water Consumption${chartConfig.showFatigue ? ' & Fatigue Level' : ''}`,
-            color: textColor,
-            font: {
-              size: 16
-            }
-          },
-          legend: {
-            labels: {
-              color: textColor
-            }
-          }
-        }
-      }
-    };
+    const spec = buildChartSpec(chartData, chartConfig, chartConfig.theme);
     
     // Destroy existing chart if it exists
     if (chartInstanceRef.current) {
@@ -190,7 +82,7 @@ const ChartView: React.FC<ChartViewProps> = ({
     // Create new chart
     const ctx = canvasRef.current.getContext('2d');
     if (ctx) {
-      chartInstanceRef.current = new Chart(ctx, config as any);
+      chartInstanceRef.current = new Chart(ctx, spec as ChartConfiguration<'bar'>);
     }
     
     // Clean up function to destroy chart on unmount
@@ -264,7 +156,7 @@ const ChartView: React.FC<ChartViewProps> = ({
   // Return the canvas for the chart
   return (
     <View style={[styles.container, {
-      backgroundColor: chartConfig.theme === 'dark' ? '#121212' : '#ffffff'
+      backgroundColor: getChartColors(chartConfig.theme).background
     }]}>
       <MotiView 
         from={{opacity:0,translateY:20}} 
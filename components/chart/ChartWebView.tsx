@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { WebView } from 'react-native-webview';
+import {
+  enqueueHostMessage,
+  getChartHostHtml,
+  HostMessage,
+  parseChartMessage,
+  serializeHostMessage,
+} from './chartRuntime';
+import { ChartSpec } from './chartSpec';
+
+interface ChartWebViewProps {
+  spec: ChartSpec;
+  background: string;
+  textColor: string;
+  // Called with the index of the bucket that was tapped or held
+  onBarPress?: (index: number) => void;
+  onBarLongPress?: (index: number) => void;
+  // Bars a drag has to cover to pan one step
+  panStepBars?: number;
+  onPan?: (steps: number) => void;
+  onZoom?: (direction: 1 | -1) => void;
+}
+
+/**
+ * Native chart host. The WebView loads its page once and each new spec is
+ * posted into it, so paging through windows updates the chart in place.
+ * Messages sent before the page says it is ready wait in a queue.
+ */
+export default function ChartWebView({
+  spec,
+  background,
+  textColor,
+  onBarPress,
+  onBarLongPress,
+  panStepBars = 1,
+  onPan,
+  onZoom,
+}: ChartWebViewProps) {
+  const webViewRef = useRef<WebView>(null);
+  const readyRef = useRef(false);
+  const queueRef = useRef<HostMessage[]>([]);
+  // Set when the page reports that it could not draw; cleared by retrying
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  // Keep the latest callbacks without re-rendering the page when they change
+  const onBarPressRef = useRef(onBarPress);
+  onBarPressRef.current = onBarPress;
+  const onBarLongPressRef = useRef(onBarLongPress);
+  onBarLongPressRef.current = onBarLongPress;
+  const onPanRef = useRef(onPan);
+  onPanRef.current = onPan;
+  const onZoomRef = useRef(onZoom);
+  onZoomRef.current = onZoom;
+
+  const html = useMemo(() => getChartHostHtml(), []);
+
+  // Deliver now if the page is listening, otherwise queue
+  const send = useCallback((message: HostMessage) => {
+    if (readyRef.current && webViewRef.current) {
+      webViewRef.current.postMessage(serializeHostMessage(message));
+      return;
+    }
+    queueRef.current = enqueueHostMessage(queueRef.current, message);
+  }, []);
+
+  useEffect(() => {
+    send({ type: 'render', spec, background, panStepBars });
+  }, [send, spec, background, panStepBars]);
+
+  const handleReady = () => {
+    readyRef.current = true;
+    const queued = queueRef.current;
+    queueRef.current = [];
+    queued.forEach(send);
+  };
+
+  // A fresh page has to say it is ready again before it gets the chart
+  const resetPage = () => {
+    readyRef.current = false;
+    queueRef.current = [{ type: 'render', spec, background, panStepBars }];
+  };
+
+  const handleRetry = () => {
+    console.log('[ACTION] Retrying chart');
+    resetPage();
+    setError(null);
+    setAttempt(a => a + 1);
+  };
+
+  if (error) {
+    return (
+      <View style={[styles.container, styles.fallback, { backgroundColor: background }]}>
+        <Text style={[styles.fallbackText, { color: textColor }]}>The chart could not be drawn.</Text>
+        <Text style={[styles.fallbackDetail, { color: textColor }]}>{error}</Text>
+        <TouchableOpacity onPress={handleRetry} style={styles.retryButton}>
+          <Text style={styles.retryText}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: background }]}>
+      <WebView
+        key={attempt}
+        ref={webViewRef}
+        originWhitelist={['*']}
+        source={{ html }}
+        style={[styles.webview, { backgroundColor: background }]}
+        scrollEnabled={false}
+        javaScriptEnabled
+        onError={(event) => {
+          console.error('Chart WebView failed to load:', event.nativeEvent.description);
+          setError(event.nativeEvent.description);
+        }}
+        // iOS may end the page's process in the background; load it again
+        onContentProcessDidTerminate={() => {
+          resetPage();
+          webViewRef.current?.reload();
+        }}
+        onMessage={(event) => {
+          const message = parseChartMessage(event.nativeEvent.data);
+          switch (message?.type) {
+            case 'ready':
+              handleReady();
+              break;
+            case 'barPress':
+              onBarPressRef.current?.(message.index);
+              break;
+            case 'barLongPress':
+              onBarLongPressRef.current?.(message.index);
+              break;
+            case 'pan':
+              onPanRef.current?.(message.steps);
+              break;
+            case 'zoom':
+              onZoomRef.current?.(message.direction);
+              break;
+            case 'error':
+              console.error('Chart failed to draw:', message.message);
+              setError(message.message);
+              break;
+          }
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  webview: { flex: 1 },
+  fallback: { alignItems: 'center', justifyContent: 'center', padding: 16 },
+  fallbackText: { fontSize: 14, marginBottom: 4, textAlign: 'center' },
+  fallbackDetail: { fontSize: 12, opacity: 0.7, marginBottom: 12, textAlign: 'center' },
+  retryButton: { backgroundColor: '#3b82f6', borderRadius: 4, paddingHorizontal: 16, paddingVertical: 8 },
+  retryText: { color: '#ffffff', fontWeight: '600' },
+});
@@ -1,16 +1,23 @@
-import React from 'react';
-import { View, StyleSheet } from 'react-native';
-import { WebView } from 'react-native-webview';
+import React, { useMemo } from 'react';
+import ChartWebView from './ChartWebView';
+import { buildChartSpec, ChartSpecData, ChartSpecOptions, ChartTheme, getChartColors } from './chartSpec';
+import { ChartBucket, getChartBucket, WaterLogEntry } from './chartUtils';
+import { ZoneView } from '@/src/lib/storage/types';
 
-interface ChartProps {
-  theme: 'light' | 'dark';
-  data: {
-    labels: string[];
-    waterData: number[];
-    fatigueData: number[];
-  };
-  showWater?: boolean;
-  showFatigue?: boolean;
+interface ChartProps extends ChartSpecOptions {
+  theme: ChartTheme;
+  data: ChartSpecData;
+  // Entries `data` was built from, handed back with the bucket they fall in
+  entries?: WaterLogEntry[];
+  zoneView?: ZoneView;
+  // Called with the bucket that was tapped or held
+  onBucketPress?: (bucket: ChartBucket) => void;
+  onBucketLongPress?: (bucket: ChartBucket) => void;
+  // Dragging pans one step per `panStepBars` bars; positive steps are later
+  panStepBars?: number;
+  onPan?: (steps: number) => void;
+  // Pinching out zooms in (1), pinching in zooms out (-1)
+  onZoom?: (direction: 1 | -1) => void;
 }
 
 // Native implementation using WebView
@@ -18,54 +25,48 @@ export default function SimpleChart({
   theme = 'light', 
   data, 
   showWater = true, 
-  showFatigue = true 
+  showFatigue = true,
+  stackByBeverage = false,
+  showWaterAverage = false,
+  showFatigueAverage = false,
+  showTrend = false,
+  showPace = false,
+  entries = [],
+  zoneView,
+  onBucketPress,
+  onBucketLongPress,
+  panStepBars = 1,
+  onPan,
+  onZoom,
 }: ChartProps) {
-  const bgColor = theme === 'dark' ? '#121212' : '#ffffff';
-  const textColor = theme === 'dark' ? '#ffffff' : '#333333';
-  const gridColor = theme === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)';
+  const { background, text } = getChartColors(theme);
 
-  const datasets: any[] = [];
-  if (showWater) {
-    datasets.push({
-      label: 'Water (cups)',
-      data: data.waterData,
-      backgroundColor: theme === 'dark' ? 'rgba(53, 162, 235, 0.7)' : 'rgba(53, 162, 235, 0.5)',
-      borderColor: 'rgba(53, 162, 235, 1)',
-      borderWidth: 1,
-      yAxisID: 'y',
-    });
-  }
-  if (showFatigue) {
-    datasets.push({
-      label: 'Fatigue (1-5)',
-      data: data.fatigueData,
-      type: 'line',
-      fill: false,
-      borderColor: 'rgba(255, 99, 132, 1)',
-      borderWidth: 2,
-      pointRadius: 3,
-      pointBackgroundColor: 'rgba(255, 99, 132, 1)',
-      yAxisID: 'y1',
-    });
-  }
+  // Only a changed spec is posted to the chart, so keep it stable between renders
+  const spec = useMemo(
+    () => buildChartSpec(
+      data,
+      { showWater, showFatigue, stackByBeverage, showWaterAverage, showFatigueAverage, showTrend, showPace },
+      theme
+    ),
+    [data, showWater, showFatigue, stackByBeverage, showWaterAverage, showFatigueAverage, showTrend, showPace, theme]
+  );
 
-  const html = `<!DOCTYPE html><html><head><meta charset='utf-8'/><meta name='viewport' content='width=device-width,initial-scale=1'><script src='https://cdn.jsdelivr.net/npm/chart.js'></script><style>html,body{margin:0;padding:0;background-color:${bgColor};color:${textColor};width:100%;height:100%;}</style></head><body><canvas id='c'></canvas><script>const ctx=document.getElementById('c').getContext('2d');new Chart(ctx,{type:'bar',data:{labels:${JSON.stringify(data.labels)},datasets:${JSON.stringify(datasets)}},options:{responsive:true,animation:false,scales:{y:{beginAtZero:true,grid:{color:'${gridColor}'},ticks:{color:'${textColor}'}},${showFatigue?`y1:{position:'right',beginAtZero:true,min:0,max:5,grid:{display:false},ticks:{color:'${textColor}',stepSize:1}},`:''}x:{grid:{color:'${gridColor}'},ticks:{color:'${textColor}'}}},plugins:{legend:{labels:{color:'${textColor}'}}}}});</script></body></html>`;
+  // Placeholder data has no buckets to report
+  const emit = (handler: ((bucket: ChartBucket) => void) | undefined) => (index: number) => {
+    const bucket = getChartBucket(data, index, entries, zoneView);
+    if (bucket) handler?.(bucket);
+  };
 
   return (
-    <View style={[styles.container, { backgroundColor: bgColor }]}>
-      <WebView
-        originWhitelist={['*']}
-        source={{ html }}
-        style={styles.webview}
-        javaScriptEnabled
-        domStorageEnabled
-        cacheEnabled={false}
-      />
-    </View>
+    <ChartWebView
+      spec={spec}
+      background={background}
+      textColor={text}
+      onBarPress={emit(onBucketPress)}
+      onBarLongPress={emit(onBucketLongPress)}
+      panStepBars={panStepBars}
+      onPan={onPan}
+      onZoom={onZoom}
+    />
   );
 }
-
-const styles = StyleSheet.create({
-  container: { flex: 1 },
-  webview: { flex: 1, backgroundColor: 'transparent' },
-}); 
\ No newline at end of file
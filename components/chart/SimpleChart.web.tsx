@@ -1,16 +1,31 @@
 import React, { useEffect, useRef } from 'react';
 import { View, StyleSheet } from 'react-native';
-import Chart from 'chart.js/auto';
-
-interface ChartProps {
-  theme: 'light' | 'dark';
-  data: {
-    labels: string[];
-    waterData: number[];
-    fatigueData: number[];
-  };
-  showWater?: boolean;
-  showFatigue?: boolean;
+import Chart, { ChartConfiguration } from 'chart.js/auto';
+import {
+  buildChartSpec,
+  ChartSpecData,
+  ChartSpecOptions,
+  ChartTheme,
+  getChartColors,
+} from './chartSpec';
+import { attachChartGestures } from './chartGestures';
+import { ChartBucket, getChartBucket, WaterLogEntry } from './chartUtils';
+import { ZoneView } from '@/src/lib/storage/types';
+
+interface ChartProps extends ChartSpecOptions {
+  theme: ChartTheme;
+  data: ChartSpecData;
+  // Entries `data` was built from, handed back with the bucket they fall in
+  entries?: WaterLogEntry[];
+  zoneView?: ZoneView;
+  // Called with the bucket that was tapped or held
+  onBucketPress?: (bucket: ChartBucket) => void;
+  onBucketLongPress?: (bucket: ChartBucket) => void;
+  // Dragging pans one step per `panStepBars` bars; positive steps are later
+  panStepBars?: number;
+  onPan?: (steps: number) => void;
+  // Pinching out zooms in (1), pinching in zooms out (-1)
+  onZoom?: (direction: 1 | -1) => void;
 }
 
 export default function SimpleChartWeb({
@@ -18,14 +33,60 @@ export default function SimpleChartWeb({
   data,
   showWater = true,
   showFatigue = true,
+  stackByBeverage = false,
+  showWaterAverage = false,
+  showFatigueAverage = false,
+  showTrend = false,
+  showPace = false,
+  entries = [],
+  zoneView,
+  onBucketPress,
+  onBucketLongPress,
+  panStepBars = 1,
+  onPan,
+  onZoom,
 }: ChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const chartRef = useRef<Chart | null>(null);
 
-  // Colors for theme
-  const bgColor = theme === 'dark' ? '#121212' : '#ffffff';
-  const textColor = theme === 'dark' ? '#ffffff' : '#333333';
-  const gridColor = theme === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)';
+  // Keep the latest props without recreating the chart or re-attaching the
+  // gestures when they change. Placeholder data has no buckets to report.
+  const latestRef = useRef({ data, entries, zoneView, onBucketPress, onBucketLongPress, panStepBars, onPan, onZoom });
+  latestRef.current = { data, entries, zoneView, onBucketPress, onBucketLongPress, panStepBars, onPan, onZoom };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const toBucket = (index: number) => {
+      const { data, entries, zoneView } = latestRef.current;
+      return getChartBucket(data, index, entries, zoneView);
+    };
+
+    return attachChartGestures(canvas, {
+      barIndexAt: (event) => {
+        const elements = chartRef.current?.getElementsAtEventForMode(event, 'nearest', { intersect: true }, false) ?? [];
+        return elements.length ? elements[0].index : null;
+      },
+      stepWidth: () => {
+        const chart = chartRef.current;
+        const bars = chart?.data.labels?.length;
+        return chart?.chartArea && bars ? (chart.chartArea.width / bars) * latestRef.current.panStepBars : 1;
+      },
+      onPress: (index) => {
+        const bucket = toBucket(index);
+        if (bucket) latestRef.current.onBucketPress?.(bucket);
+      },
+      onLongPress: (index) => {
+        const bucket = toBucket(index);
+        if (bucket) latestRef.current.onBucketLongPress?.(bucket);
+      },
+      onPan: (steps) => latestRef.current.onPan?.(steps),
+      onZoom: (direction) => latestRef.current.onZoom?.(direction),
+    });
+  }, []);
+
+  const bgColor = getChartColors(theme).background;
 
   useEffect(() => {
     if (!canvasRef.current) return;
@@ -35,73 +96,22 @@ export default function SimpleChartWeb({
       chartRef.current.destroy();
     }
 
-    const datasets: any[] = [];
-    if (showWater) {
-      datasets.push({
-        label: 'Water (cups)',
-        data: data.waterData,
-        backgroundColor: theme === 'dark' ? 'rgba(53, 162, 235, 0.7)' : 'rgba(53, 162, 235, 0.5)',
-        borderColor: 'rgba(53, 162, 235, 1)',
-        borderWidth: 1,
-        yAxisID: 'y',
-      });
-    }
-    if (showFatigue) {
-      datasets.push({
-        label: 'Fatigue (1-5)',
-        data: data.fatigueData,
-        type: 'line',
-        fill: false,
-        borderColor: 'rgba(255, 99, 132, 1)',
-        borderWidth: 2,
-        pointRadius: 3,
-        pointBackgroundColor: 'rgba(255, 99, 132, 1)',
-        yAxisID: 'y1',
-      });
-    }
+    const spec = buildChartSpec(
+      data,
+      { showWater, showFatigue, stackByBeverage, showWaterAverage, showFatigueAverage, showTrend, showPace },
+      theme
+    );
 
     const ctx = canvasRef.current.getContext('2d');
     if (!ctx) return;
 
     chartRef.current = new Chart(ctx, {
-      type: 'bar',
-      data: {
-        labels: data.labels,
-        datasets,
-      },
+      ...spec,
       options: {
-        responsive: true,
-        maintainAspectRatio: false,
+        ...spec.options,
         resizeDelay: 0,
-        animation: false,
-        scales: {
-          y: {
-            beginAtZero: true,
-            grid: { color: gridColor },
-            ticks: { color: textColor },
-          },
-          ...(showFatigue && {
-            y1: {
-              position: 'right',
-              beginAtZero: true,
-              min: 0,
-              max: 5,
-              grid: { display: false },
-              ticks: { color: textColor, stepSize: 1 },
-            },
-          }),
-          x: {
-            grid: { color: gridColor },
-            ticks: { color: textColor, maxRotation: 45, minRotation: 45 },
-          },
-        },
-        plugins: {
-          legend: {
-            labels: { color: textColor },
-          },
-        },
       },
-    });
+    } as ChartConfiguration);
 
     // Ensure correct size after creation
     setTimeout(() => {
@@ -111,12 +121,12 @@ export default function SimpleChartWeb({
     return () => {
       chartRef.current?.destroy();
     };
-  }, [theme, data, showWater, showFatigue]);
+  }, [theme, data, showWater, showFatigue, stackByBeverage, showWaterAverage, showFatigueAverage, showTrend, showPace]);
 
   return (
     <View style={[styles.container, { backgroundColor: bgColor }]}>
       {/* @ts-ignore */}
-      <canvas ref={canvasRef} style={{ width: '100%', height: '100%' }} />
+      <canvas ref={canvasRef} style={{ width: '100%', height: '100%', touchAction: 'pan-y' }} />
     </View>
   );
 }
@@ -0,0 +1,88 @@
+import { attachChartGestures, CHART_GESTURES_SCRIPT, LONG_PRESS_MS } from '../chartGestures';
+
+// The version the native chart's WebView page runs
+const attachPageGestures = new Function(`${CHART_GESTURES_SCRIPT}\nreturn attachChartGestures;`)();
+
+// Just enough of a canvas to dispatch pointer events to
+const createTarget = () => {
+  const listeners = {};
+  return {
+    addEventListener: (type, listener) => { listeners[type] = listener; },
+    removeEventListener: (type) => { delete listeners[type]; },
+    fire: (type, pointerId, clientX, clientY = 0) => listeners[type]?.({ pointerId, clientX, clientY }),
+    listeners,
+  };
+};
+
+const setup = (attach) => {
+  const target = createTarget();
+  const handlers = {
+    barIndexAt: () => 2,
+    stepWidth: () => 20,
+    onPress: jest.fn(),
+    onLongPress: jest.fn(),
+    onPan: jest.fn(),
+    onZoom: jest.fn(),
+  };
+  const detach = attach(target, handlers);
+  return { target, handlers, detach };
+};
+
+describe.each([
+  ['canvas', attachChartGestures],
+  ['WebView page', attachPageGestures],
+])('chart gestures on the %s', (_name, attach) => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('reports a tap and a long press on the bar under the pointer', () => {
+    const { target, handlers } = setup(attach);
+
+    target.fire('pointerdown', 1, 100);
+    target.fire('pointerup', 1, 100);
+    target.fire('pointerdown', 1, 100);
+    jest.advanceTimersByTime(LONG_PRESS_MS);
+    target.fire('pointerup', 1, 100);
+
+    expect(handlers.onPress).toHaveBeenCalledTimes(1);
+    expect(handlers.onPress).toHaveBeenCalledWith(2);
+    expect(handlers.onLongPress).toHaveBeenCalledWith(2);
+  });
+
+  it('pans a step per step width dragged, earlier when dragging right', () => {
+    const { target, handlers } = setup(attach);
+
+    target.fire('pointerdown', 1, 100);
+    target.fire('pointermove', 1, 145);
+    target.fire('pointermove', 1, 70);
+    target.fire('pointerup', 1, 70);
+    jest.advanceTimersByTime(LONG_PRESS_MS);
+
+    expect(handlers.onPan.mock.calls).toEqual([[-2], [3]]);
+    expect(handlers.onPress).not.toHaveBeenCalled();
+    expect(handlers.onLongPress).not.toHaveBeenCalled();
+  });
+
+  it('zooms in and out as a pinch spreads and closes', () => {
+    const { target, handlers } = setup(attach);
+
+    target.fire('pointerdown', 1, 100);
+    target.fire('pointerdown', 2, 200);
+    target.fire('pointermove', 2, 260);
+    target.fire('pointermove', 2, 150);
+    target.fire('pointerup', 2, 150);
+    target.fire('pointerup', 1, 100);
+
+    expect(handlers.onZoom.mock.calls).toEqual([[1], [-1]]);
+    expect(handlers.onPan).not.toHaveBeenCalled();
+    expect(handlers.onPress).not.toHaveBeenCalled();
+  });
+
+  it('removes its listeners when detached', () => {
+    const { target, detach } = setup(attach);
+
+    detach();
+
+    expect(Object.keys(target.listeners)).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  CHART_JS_VERSION,
+  enqueueHostMessage,
+  getChartHostHtml,
+  getChartRuntimeHtml,
+  parseChartMessage,
+} from '../chartRuntime';
+
+describe('bundled chart runtime', () => {
+  it('inlines Chart.js instead of loading it from the network', () => {
+    const html = getChartRuntimeHtml();
+
+    expect(html).toContain(`/* chart.js ${CHART_JS_VERSION} */`);
+    expect(html).not.toMatch(/<script[^>]+src=/);
+    // Only the reporter's and the bundle's own closing tags
+    expect(html.match(/<\/script>/g)).toHaveLength(2);
+  });
+
+  it('was regenerated after the last chart.js upgrade', () => {
+    // Run `npm run bundle-chart-runtime` and commit the result if this fails.
+    // chart.js does not export its package.json, so read it from disk.
+    const manifest = path.join(__dirname, '../../../node_modules/chart.js/package.json');
+
+    expect(CHART_JS_VERSION).toBe(JSON.parse(fs.readFileSync(manifest, 'utf8')).version);
+  });
+
+  it('hosts a page that says when it is ready to draw', () => {
+    const html = getChartHostHtml();
+
+    expect(html).toContain(`/* chart.js ${CHART_JS_VERSION} */`);
+    expect(html).not.toMatch(/<script[^>]+src=/);
+    expect(html).toContain("type:'ready'");
+    expect(html).toContain("<canvas id='c'");
+  });
+
+  it('runs the page script: draws renders and posts bar taps and drags', () => {
+    // The page's own script is the last one, after the canvas
+    const script = getChartHostHtml().split('<script>').pop().split('</script>')[0];
+    const canvasListeners = {};
+    const windowListeners = {};
+    const canvas = {
+      addEventListener: (type, listener) => { canvasListeners[type] = listener; },
+      getContext: () => ({}),
+    };
+    const page = {
+      getElementById: () => canvas,
+      addEventListener: () => {},
+      body: { style: {} },
+    };
+    function FakeChart(_ctx, spec) {
+      this.data = spec.data;
+      this.chartArea = { width: 100 };
+      this.getElementsAtEventForMode = () => [{ index: 1 }];
+      this.update = jest.fn();
+    }
+    FakeChart.version = 'test';
+    const posted = [];
+
+    new Function('window', 'document', 'Chart', 'postChartMessage', script)(
+      { addEventListener: (type, listener) => { windowListeners[type] = listener; } },
+      page,
+      FakeChart,
+      message => posted.push(message)
+    );
+    const spec = { data: { labels: ['a', 'b', 'c', 'd', 'e'] }, options: {} };
+    windowListeners.message({ data: JSON.stringify({ type: 'render', spec, background: '#121212', panStepBars: 2 }) });
+    const fire = (type, clientX) => canvasListeners[type]({ pointerId: 1, clientX, clientY: 0 });
+    fire('pointerdown', 50);
+    fire('pointerup', 50);
+    // 40px is one step of two 20px bars
+    fire('pointerdown', 50);
+    fire('pointermove', 10);
+    fire('pointerup', 10);
+
+    expect(page.body.style.backgroundColor).toBe('#121212');
+    expect(posted).toEqual([
+      { type: 'ready', version: 'test' },
+      { type: 'barPress', index: 1 },
+      { type: 'pan', steps: 1 },
+    ]);
+  });
+
+  it('keeps only the latest waiting render', () => {
+    const first = { type: 'render', spec: { type: 'bar' }, background: '#ffffff', panStepBars: 1 };
+    const second = { type: 'render', spec: { type: 'bar' }, background: '#121212', panStepBars: 1 };
+
+    expect(enqueueHostMessage(enqueueHostMessage([], first), second)).toEqual([second]);
+  });
+
+  it('reads known messages and ignores anything else', () => {
+    expect(parseChartMessage('{"type":"barPress","index":3}')).toEqual({ type: 'barPress', index: 3 });
+    expect(parseChartMessage('{"type":"barLongPress","index":0}')).toEqual({ type: 'barLongPress', index: 0 });
+    expect(parseChartMessage('{"type":"ready","version":"4.4.0"}')).toEqual({ type: 'ready', version: '4.4.0' });
+    expect(parseChartMessage('{"type":"other"}')).toBeNull();
+    expect(parseChartMessage('not json')).toBeNull();
+  });
+});
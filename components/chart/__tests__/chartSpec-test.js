@@ -0,0 +1,67 @@
+import { buildChartSpec } from '../chartSpec';
+
+const data = {
+  labels: ['1/10', '1/11', '1/12'],
+  waterData: [3, 1.3, 0],
+  effectiveData: [2.8, 0.5, 0],
+  fatigueData: [2.5, 4, 0],
+  beverageSeries: [
+    { beverage: 'water', label: 'Water', data: [2, 0, 0] },
+    { beverage: 'alcohol', label: 'Alcohol', data: [1, 1.3, 0] },
+  ],
+  waterLabel: 'Water (cups)',
+  goalData: [2, 2, 2],
+  goalMet: [true, false, false],
+  bucketSize: 'day',
+  waterAverage: [3, 2.2, null],
+  fatigueAverage: [2.5, 3.3, null],
+  waterTrend: [3, 1.3, null],
+  previousWaterData: [2, 2, 1],
+};
+
+const hourly = {
+  labels: ['6AM', '7AM', '8AM'],
+  waterData: [0, 1, 0],
+  effectiveData: [0, 1, 0],
+  fatigueData: [0, 3, 0],
+  beverageSeries: [{ beverage: 'water', label: 'Water', data: [0, 1, 0] }],
+  waterLabel: 'Water (cups)',
+  bucketSize: 'hour',
+  cumulativeData: [0, 1, null],
+  paceData: [0, 0.5, 1],
+  projectedData: [null, 1, 1.5],
+};
+
+describe('chart spec', () => {
+  it('draws water bars, goal and fatigue by default', () => {
+    expect(buildChartSpec(data)).toMatchSnapshot();
+  });
+
+  it('stacks bars by beverage', () => {
+    expect(buildChartSpec(data, { stackByBeverage: true, showFatigue: false })).toMatchSnapshot();
+  });
+
+  it('adds the derived series when asked for', () => {
+    expect(
+      buildChartSpec(data, { showWaterAverage: true, showFatigueAverage: true, showTrend: true }, 'dark')
+    ).toMatchSnapshot();
+  });
+
+  it('puts the day pace on its own axis', () => {
+    expect(buildChartSpec(hourly, { showPace: true, showFatigue: false })).toMatchSnapshot();
+  });
+
+  it('leaves out the fatigue axis when nothing is drawn on it', () => {
+    const spec = buildChartSpec(data, { showFatigue: false, showFatigueAverage: true });
+
+    expect(Object.keys(spec.options.scales)).toEqual(['y', 'y1', 'x']);
+    expect(Object.keys(buildChartSpec(hourly, { showFatigue: false, showFatigueAverage: true }).options.scales))
+      .toEqual(['y', 'x']);
+  });
+
+  it('only serialises plain data', () => {
+    const spec = buildChartSpec(hourly, { showPace: true });
+
+    expect(JSON.parse(JSON.stringify(spec))).toEqual(spec);
+  });
+});
@@ -0,0 +1,353 @@
+import {
+  addPaceSeries,
+  addTrendSeries,
+  buildHeatmap,
+  getChartBucket,
+  getHeatmapRange,
+  groupEntriesByDay,
+  groupEntriesByHour,
+  linearTrend,
+  processEntriesForChart,
+  rollingAverage,
+  summarizePeriod,
+  typicalHourlyIntake,
+} from '../chartUtils';
+import { DEFAULT_BEVERAGE_PROFILES } from '@/src/lib/beverages';
+
+const at = (day, hour) => new Date(2024, 0, day, hour, 0, 0);
+
+const entries = [
+  { amountMl: 500, fatigue: 2, timestamp: at(10, 9) },
+  { amountMl: 250, beverage: 'coffee', fatigue: 3, timestamp: at(10, 9) },
+  { amountMl: 300, beverage: 'alcohol', fatigue: 4, timestamp: at(11, 20) },
+];
+
+describe('beverage totals', () => {
+  it('reports raw and effective volume per day', () => {
+    const data = groupEntriesByDay(entries, 2, at(11, 12));
+
+    expect(data.waterData).toEqual([750, 300]);
+    expect(data.effectiveData[0]).toBeCloseTo(500 + 250 * 0.8);
+    expect(data.effectiveData[1]).toBeCloseTo(300 * 0.4);
+  });
+
+  it('splits volume into one series per beverage present, in display order', () => {
+    const data = groupEntriesByHour(entries.slice(0, 2));
+
+    expect(data.beverageSeries.map(series => series.beverage)).toEqual(['water', 'coffee']);
+    expect(data.beverageSeries[1].data[9]).toBe(250);
+  });
+
+  it('uses custom hydration factors when given', () => {
+    const profiles = {
+      ...DEFAULT_BEVERAGE_PROFILES,
+      coffee: { hydrationFactor: 1, caffeineMgPer100Ml: 40 },
+    };
+
+    const data = groupEntriesByDay(entries, 2, at(11, 12), profiles);
+
+    expect(data.effectiveData[0]).toBe(750);
+  });
+
+  it('judges the goal by effective hydration', () => {
+    const data = processEntriesForChart(entries, 'week', at(11, 12), {
+      dailyGoalMl: 700,
+      unit: 'ml',
+    });
+
+    // 500 ml water + 200 ml effective from coffee reaches 700 ml
+    expect(data.goalMet.slice(-2)).toEqual([true, false]);
+    expect(data.waterLabel).toBe('Water (ml)');
+  });
+});
+
+// Tests run in America/New_York (see jest.globalSetup.js): clocks spring
+// forward on 2024-03-10 and fall back on 2024-11-03.
+describe('DST-aware day buckets', () => {
+  const entry = (date, extra = {}) => ({ amountMl: 250, fatigue: 3, timestamp: date, ...extra });
+
+  it('keeps the hour after midnight following spring-forward on its own day', () => {
+    const data = groupEntriesByDay(
+      [entry(new Date(2024, 2, 10, 23, 30)), entry(new Date(2024, 2, 11, 0, 30))],
+      7,
+      new Date(2024, 2, 11)
+    );
+
+    expect(data.labels.slice(-2)).toEqual(['3/10', '3/11']);
+    expect(data.waterData.slice(-2)).toEqual([250, 250]);
+  });
+
+  it('keeps the last hour of the 25-hour fall-back day on that day', () => {
+    const data = groupEntriesByDay(
+      [entry(new Date(2024, 10, 3, 23, 30)), entry(new Date(2024, 10, 4, 8, 0))],
+      7,
+      new Date(2024, 10, 4)
+    );
+
+    expect(data.labels.slice(-2)).toEqual(['11/3', '11/4']);
+    expect(data.waterData.slice(-2)).toEqual([250, 250]);
+  });
+
+  it('puts both 1 AM hours of the fall-back day in the 1 AM bucket', () => {
+    const firstOneAm = new Date('2024-11-03T05:30:00Z'); // 1:30 EDT
+    const secondOneAm = new Date('2024-11-03T06:30:00Z'); // 1:30 EST
+
+    const data = groupEntriesByHour([entry(firstOneAm), entry(secondOneAm)]);
+
+    expect(data.waterData[1]).toBe(500);
+  });
+
+  it('buckets by the zone an entry was logged in when asked to', () => {
+    // 07:00 on June 2 in Tokyo is 18:00 on June 1 in New York
+    const tokyo = entry(new Date('2024-06-01T22:00:00Z'), { tzOffsetMinutes: 9 * 60 });
+    const end = new Date(2024, 5, 2);
+
+    const current = processEntriesForChart([tokyo], 'week', end, { unit: 'ml' });
+    const logged = processEntriesForChart([tokyo], 'week', end, { unit: 'ml', zoneView: 'logged' });
+
+    expect(current.waterData.slice(-2)).toEqual([250, 0]);
+    expect(logged.waterData.slice(-2)).toEqual([0, 250]);
+  });
+
+  it('shows entries without a recorded zone in the current zone', () => {
+    const legacy = entry(new Date('2024-06-01T22:00:00Z'));
+
+    const logged = processEntriesForChart([legacy], 'week', new Date(2024, 5, 2), {
+      unit: 'ml',
+      zoneView: 'logged',
+    });
+
+    expect(logged.waterData.slice(-2)).toEqual([250, 0]);
+  });
+});
+
+describe('day start hour', () => {
+  const lateNight = { amountMl: 250, fatigue: 3, timestamp: new Date(2024, 0, 11, 1, 30) };
+
+  it('counts drinks before the day start towards the previous day', () => {
+    const data = groupEntriesByDay([lateNight], 2, at(11, 12), DEFAULT_BEVERAGE_PROFILES, 4);
+
+    expect(data.waterData).toEqual([250, 0]);
+  });
+
+  it('starts the hourly view at the day start hour', () => {
+    const data = groupEntriesByHour([lateNight], DEFAULT_BEVERAGE_PROFILES, 4);
+
+    expect(data.labels[0]).toBe('4AM');
+    expect(data.labels[23]).toBe('3AM');
+    expect(data.waterData[21]).toBe(250);
+  });
+});
+
+describe('adaptive buckets', () => {
+  const daily = Array.from({ length: 121 }, (_, i) => ({
+    amountMl: 1000,
+    fatigue: 3,
+    timestamp: new Date(2024, 0, 1 + i, 12),
+  }));
+
+  it('draws a quarter as weekly bars of daily averages', () => {
+    const data = processEntriesForChart(daily, 'quarter', new Date(2024, 3, 27), { unit: 'ml', dailyGoalMl: 1000 });
+
+    expect(data.bucketSize).toBe('week');
+    expect(data.labels).toHaveLength(13);
+    expect(data.labels[12]).toBe('4/21');
+    expect(data.waterData[12]).toBe(1000);
+    expect(data.goalMet[12]).toBe(true);
+    expect(data.waterLabel).toBe('Water (ml per day)');
+  });
+
+  it('draws a year as monthly bars', () => {
+    const data = processEntriesForChart(daily, 'year', new Date(2024, 3, 30), { unit: 'ml' });
+
+    expect(data.bucketSize).toBe('month');
+    expect(data.labels.slice(-4)).toEqual(["Jan '24", "Feb '24", "Mar '24", "Apr '24"]);
+    expect(data.waterData.slice(-5)).toEqual([0, 1000, 1000, 1000, 1000]);
+  });
+
+  it('fits all-time bars to the length of the history', () => {
+    const data = processEntriesForChart(daily.slice(0, 20), 'all', undefined, { unit: 'ml' });
+
+    expect(data.bucketSize).toBe('day');
+    expect(data.labels).toHaveLength(20);
+  });
+});
+
+describe('derived series', () => {
+  it('averages over the days loaded so far at the start of the window', () => {
+    expect(rollingAverage([2, 4, null, 6], 3)).toEqual([2, 3, 3, 5]);
+  });
+
+  it('fits a least-squares line through the values present', () => {
+    expect(linearTrend([1, null, 3, 4])).toEqual([1, 2, 3, 4]);
+    expect(linearTrend([5, null])).toEqual([null, null]);
+  });
+
+  it('leaves days that have not started out of every series', () => {
+    const data = groupEntriesByDay(
+      [
+        { amountMl: 1000, fatigue: 2, timestamp: at(8, 9) },
+        { amountMl: 2000, fatigue: 4, timestamp: at(9, 9) },
+      ],
+      4,
+      at(11, 12)
+    );
+
+    const withTrends = addTrendSeries(data, at(10, 8));
+
+    expect(withTrends.waterAverage).toEqual([1000, 1500, 1000, null]);
+    expect(withTrends.fatigueAverage).toEqual([2, 3, 3, null]);
+    expect(withTrends.waterTrend[3]).toBeNull();
+  });
+
+  it('converts intake series to the display unit', () => {
+    const data = processEntriesForChart(entries, 'week', at(11, 12), { unit: 'ml' });
+
+    // 750 ml over the first six days, then 1050 ml over seven
+    expect(data.waterAverage.slice(-2)).toEqual([125, 150]);
+    expect(data.waterTrend).toHaveLength(7);
+  });
+
+  it('adds nothing to hourly bars', () => {
+    const data = processEntriesForChart(entries.slice(0, 2), 'day', at(10, 12));
+
+    expect(data.waterAverage).toBeUndefined();
+    expect(data.waterTrend).toBeUndefined();
+  });
+});
+
+describe('previous period comparison', () => {
+  const lastWeek = [
+    { amountMl: 400, fatigue: 4, timestamp: at(3, 9) },
+    { amountMl: 600, fatigue: 2, timestamp: at(4, 9) },
+  ];
+
+  it('lines the previous window up with this one, bucket for bucket', () => {
+    const data = processEntriesForChart(entries, 'week', at(11, 12), { unit: 'ml', previousEntries: lastWeek });
+
+    // This window runs 1/5-1/11, so the previous one runs 12/29-1/4
+    expect(data.previousWaterData).toEqual([0, 0, 0, 0, 0, 400, 600]);
+  });
+
+  it('summarizes totals, daily average and fatigue', () => {
+    const range = { start: at(5, 0), end: new Date(2024, 0, 11, 23, 59, 59, 999) };
+
+    expect(summarizePeriod(entries, range)).toEqual({ totalMl: 1050, dailyAverageMl: 150, meanFatigue: 3 });
+  });
+
+  it('averages only over the days that have started', () => {
+    const range = { start: at(5, 0), end: new Date(2024, 0, 11, 23, 59, 59, 999) };
+
+    expect(summarizePeriod(entries, range, 0, at(10, 12)).dailyAverageMl).toBe(1050 / 6);
+  });
+});
+
+describe('day pace', () => {
+  const today = groupEntriesByHour(entries.slice(0, 2));
+  const pace = { dailyGoalMl: 1000, wakeHour: 8, bedHour: 18 };
+
+  it('keeps a running total of effective intake up to the current hour', () => {
+    const data = addPaceSeries(today, at(10, 0), pace, at(10, 12));
+
+    expect(data.cumulativeData.slice(8, 14)).toEqual([0, 700, 700, 700, 700, null]);
+  });
+
+  it('reaches the goal evenly between waking and bedtime', () => {
+    const data = addPaceSeries(today, at(10, 0), pace, at(10, 12));
+
+    expect(data.paceData[7]).toBe(0);
+    expect(data.paceData[8]).toBe(100);
+    expect(data.paceData[17]).toBe(1000);
+    expect(data.paceData[23]).toBe(1000);
+  });
+
+  it('projects the rest of the day from the usual hourly intake', () => {
+    const history = [3, 4, 5].map(day => ({ amountMl: 300, fatigue: 3, timestamp: at(day, 15) }));
+    const typicalIntake = typicalHourlyIntake(history);
+
+    const data = addPaceSeries(today, at(10, 0), { ...pace, typicalIntake }, at(10, 12));
+
+    expect(data.projectedData[11]).toBeNull();
+    expect(data.projectedData[12]).toBe(700);
+    expect(data.projectedData[15]).toBe(1000);
+    expect(data.projectedTotalMl).toBe(1000);
+  });
+
+  it('needs a few days of history before projecting', () => {
+    const history = [3, 4].map(day => ({ amountMl: 300, fatigue: 3, timestamp: at(day, 15) }));
+
+    expect(typicalHourlyIntake(history)).toBeNull();
+  });
+
+  it('does not project a day that is over', () => {
+    const data = processEntriesForChart(entries.slice(0, 2), 'day', at(10, 12), {
+      dailyGoalMl: 1000,
+      unit: 'ml',
+      historyEntries: [3, 4, 5].map(day => ({ amountMl: 300, fatigue: 3, timestamp: at(day, 15) })),
+    });
+
+    expect(data.cumulativeData[23]).toBe(700);
+    expect(data.projectedData).toBeUndefined();
+  });
+});
+
+describe('calendar heatmap', () => {
+  const options = { dailyGoalMl: 1000 };
+
+  it('lays a month out in weeks, starting on the first weekday', () => {
+    // January 2024 starts on a Monday
+    const range = getHeatmapRange('month', at(15, 12));
+    const data = buildHeatmap(entries, 'month', range, options, at(20, 12));
+
+    expect(data.cells).toHaveLength(31);
+    expect(data.rows).toBe(5);
+    expect(data.cells[0]).toMatchObject({ row: 0, column: 1 });
+    expect(data.cells[9]).toMatchObject({ row: 1, column: 3, fatigue: 2.5 });
+    expect(data.cells[9].goalRatio).toBeCloseTo(0.7);
+    expect(data.weekdayLabels[0]).toBe('S');
+  });
+
+  it('leaves days that have not started unshaded', () => {
+    const data = buildHeatmap(entries, 'month', getHeatmapRange('month', at(15, 12)), options, at(20, 12));
+
+    expect(data.cells[18].goalRatio).toBe(0);
+    expect(data.cells[20].goalRatio).toBeNull();
+  });
+
+  it('lays a year out in columns of weeks, with month labels', () => {
+    const range = getHeatmapRange('year', at(15, 12), { dayStartHour: 0, weekStartDay: 1 });
+    const data = buildHeatmap(entries, 'year', range, { ...options, weekStartDay: 1 }, at(20, 12));
+
+    expect(range.start).toEqual(new Date(2023, 1, 1));
+    expect(data.rows).toBe(7);
+    expect(data.weekdayLabels[0]).toBe('M');
+    // February 1, 2023 was a Wednesday
+    expect(data.cells[0]).toMatchObject({ row: 2, column: 0 });
+    expect(data.columnLabels[0]).toBe('Feb');
+    expect(data.columnLabels.filter(Boolean)).toHaveLength(12);
+  });
+});
+
+describe('chart buckets', () => {
+  it('describes a day bar with its range and entries', () => {
+    const data = groupEntriesByDay(entries, 2, at(11, 12));
+    const bucket = getChartBucket(data, 0, entries);
+
+    expect(bucket).toMatchObject({ index: 0, size: 'day', start: at(10, 0) });
+    expect(bucket.end).toEqual(new Date(at(11, 0).getTime() - 1));
+    expect(bucket.entries).toEqual(entries.slice(0, 2));
+  });
+
+  it('describes an hour of the day view, from the hour the day starts', () => {
+    const data = processEntriesForChart(entries, 'day', at(11, 12), { dayStartHour: 4 });
+    const bucket = getChartBucket(data, 16, entries);
+
+    expect(bucket.start).toEqual(at(11, 20));
+    expect(bucket.end).toEqual(new Date(at(11, 21).getTime() - 1));
+    expect(bucket.entries).toEqual([entries[2]]);
+  });
+
+  it('has nothing to describe without bucket starts', () => {
+    expect(getChartBucket(groupEntriesByHour(entries), 9, entries)).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+// How long a bar has to be held to count as a long press, and how far a
+// pointer may drift before a press turns into a drag. Shared by the canvas
+// and the WebView page.
+export const LONG_PRESS_MS = 500;
+export const LONG_PRESS_SLOP_PX = 10;
+
+// How far a pinch has to spread or close to zoom one span in or out
+export const ZOOM_STEP_RATIO = 1.5;
+
+// Wheel distance that counts as one ratio step of a trackpad pinch
+const WHEEL_ZOOM_PX = 100;
+
+export interface ChartGestureHandlers {
+  // Index of the bar under the pointer, or null
+  barIndexAt: (event: PointerEvent) => number | null;
+  // Pixels a drag has to cover to pan one step
+  stepWidth: () => number;
+  onPress: (index: number) => void;
+  onLongPress: (index: number) => void;
+  // Steps dragged since the last call; positive towards later dates
+  onPan: (steps: number) => void;
+  // 1 to zoom in (spread), -1 to zoom out (pinch)
+  onZoom: (direction: 1 | -1) => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// The minimal surface of a canvas used here, so it can be faked in tests
+type GestureTarget = Pick<HTMLElement, 'addEventListener' | 'removeEventListener'> &
+  Partial<Pick<HTMLElement, 'setPointerCapture'>>;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Turn pointer events on a chart canvas into taps, long presses, drags and
+ * pinches. Returns a function that removes the listeners again. The WebView
+ * page runs `CHART_GESTURES_SCRIPT` below instead, so keep the two in step;
+ * their tests run the same cases against both.
+ */
+export const attachChartGestures = (target: GestureTarget, handlers: ChartGestureHandlers) => {
+  const pointers = new Map<number, Point>();
+  // What the pointers down are doing: 'press' until they move or are held,
+  // 'done' once a gesture has been reported and only lifting remains
+  let mode: 'press' | 'pan' | 'pinch' | 'done' | null = null;
+  let start: Point = { x: 0, y: 0 };
+  let pressIndex: number | null = null;
+  let panned = 0;
+  let pinchDistance = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let wheelScale = 1;
+  let wheelPan = 0;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const pinchPoints = () => Array.from(pointers.values()).slice(0, 2);
+
+  // Report whole zoom steps as the scale crosses the ratio, then measure
+  // from there so one long pinch can step several spans
+  const stepZoom = (ratio: number) => {
+    if (ratio >= ZOOM_STEP_RATIO) {
+      handlers.onZoom(1);
+      return true;
+    }
+    if (ratio <= 1 / ZOOM_STEP_RATIO) {
+      handlers.onZoom(-1);
+      return true;
+    }
+    return false;
+  };
+
+  // Dragging right reveals earlier dates, like paging back
+  const stepPan = (dx: number) => {
+    const steps = -Math.trunc(dx / Math.max(handlers.stepWidth(), 1));
+    if (steps !== panned) {
+      handlers.onPan(steps - panned);
+      panned = steps;
+    }
+  };
+
+  const handleDown = (event: PointerEvent) => {
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointers.size === 1) {
+      target.setPointerCapture?.(event.pointerId);
+      mode = 'press';
+      start = { x: event.clientX, y: event.clientY };
+      panned = 0;
+      pressIndex = handlers.barIndexAt(event);
+      const index = pressIndex;
+      if (index !== null) {
+        timer = setTimeout(() => {
+          timer = null;
+          mode = 'done';
+          handlers.onLongPress(index);
+        }, LONG_PRESS_MS);
+      }
+    } else if (pointers.size === 2) {
+      clearTimer();
+      mode = 'pinch';
+      const [a, b] = pinchPoints();
+      pinchDistance = distance(a, b);
+    }
+  };
+
+  const handleMove = (event: PointerEvent) => {
+    if (!pointers.has(event.pointerId)) return;
+    const point = { x: event.clientX, y: event.clientY };
+    pointers.set(event.pointerId, point);
+
+    if (mode === 'pinch' && pointers.size >= 2) {
+      const [a, b] = pinchPoints();
+      const current = distance(a, b);
+      if (pinchDistance > 0 && stepZoom(current / pinchDistance)) {
+        pinchDistance = current;
+      }
+      return;
+    }
+    if (mode === 'press' && distance(point, start) > LONG_PRESS_SLOP_PX) {
+      clearTimer();
+      mode = 'pan';
+    }
+    if (mode === 'pan') {
+      stepPan(point.x - start.x);
+    }
+  };
+
+  const handleUp = (event: PointerEvent) => {
+    if (!pointers.delete(event.pointerId)) return;
+    if (mode === 'press' && pressIndex !== null) {
+      clearTimer();
+      handlers.onPress(pressIndex);
+    }
+    // Whatever is still down after a pinch waits to be lifted
+    mode = pointers.size ? 'done' : null;
+  };
+
+  const handleCancel = (event: PointerEvent) => {
+    if (!pointers.delete(event.pointerId)) return;
+    clearTimer();
+    mode = pointers.size ? 'done' : null;
+  };
+
+  // Trackpads pinch as ctrl + wheel and swipe sideways as horizontal wheel
+  const handleWheel = (event: WheelEvent) => {
+    if (event.ctrlKey) {
+      event.preventDefault();
+      wheelScale *= Math.exp(-event.deltaY / WHEEL_ZOOM_PX);
+      if (stepZoom(wheelScale)) wheelScale = 1;
+    } else if (Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+      event.preventDefault();
+      wheelPan -= event.deltaX;
+      const steps = -Math.trunc(wheelPan / Math.max(handlers.stepWidth(), 1));
+      if (steps) {
+        handlers.onPan(steps);
+        wheelPan += steps * handlers.stepWidth();
+      }
+    }
+  };
+
+  target.addEventListener('pointerdown', handleDown);
+  target.addEventListener('pointermove', handleMove);
+  target.addEventListener('pointerup', handleUp);
+  target.addEventListener('pointercancel', handleCancel);
+  target.addEventListener('pointerleave', handleCancel);
+  target.addEventListener('wheel', handleWheel, { passive: false });
+
+  return () => {
+    clearTimer();
+    target.removeEventListener('pointerdown', handleDown);
+    target.removeEventListener('pointermove', handleMove);
+    target.removeEventListener('pointerup', handleUp);
+    target.removeEventListener('pointercancel', handleCancel);
+    target.removeEventListener('pointerleave', handleCancel);
+    target.removeEventListener('wheel', handleWheel);
+  };
+};
+
+/**
+ * `attachChartGestures` for the native chart's WebView page, as a script
+ * that defines a function of the same name and signature. Native has no
+ * wheel, so that part is left out.
+ */
+export const CHART_GESTURES_SCRIPT = `
+function attachChartGestures(target,handlers){
+var pointers={};var mode=null;var start={x:0,y:0};var pressIndex=null;var panned=0;var pinchDistance=0;var timer=null;
+function count(){return Object.keys(pointers).length;}
+function pinchPoints(){var ids=Object.keys(pointers);return [pointers[ids[0]],pointers[ids[1]]];}
+function distance(a,b){return Math.hypot(a.x-b.x,a.y-b.y);}
+function clearTimer(){if(timer){clearTimeout(timer);timer=null;}}
+function stepZoom(ratio){if(ratio>=${ZOOM_STEP_RATIO}){handlers.onZoom(1);return true;}if(ratio<=1/${ZOOM_STEP_RATIO}){handlers.onZoom(-1);return true;}return false;}
+function stepPan(dx){var steps=-Math.trunc(dx/Math.max(handlers.stepWidth(),1));if(steps!==panned){handlers.onPan(steps-panned);panned=steps;}}
+function handleDown(e){
+pointers[e.pointerId]={x:e.clientX,y:e.clientY};
+if(count()===1){
+if(target.setPointerCapture){target.setPointerCapture(e.pointerId);}
+mode='press';start={x:e.clientX,y:e.clientY};panned=0;pressIndex=handlers.barIndexAt(e);var index=pressIndex;
+if(index!==null){timer=setTimeout(function(){timer=null;mode='done';handlers.onLongPress(index);},${LONG_PRESS_MS});}
+}else if(count()===2){clearTimer();mode='pinch';var p=pinchPoints();pinchDistance=distance(p[0],p[1]);}
+}
+function handleMove(e){
+if(!pointers[e.pointerId]){return;}
+var point={x:e.clientX,y:e.clientY};pointers[e.pointerId]=point;
+if(mode==='pinch'&&count()>=2){var p=pinchPoints();var current=distance(p[0],p[1]);if(pinchDistance>0&&stepZoom(current/pinchDistance)){pinchDistance=current;}return;}
+if(mode==='press'&&distance(point,start)>${LONG_PRESS_SLOP_PX}){clearTimer();mode='pan';}
+if(mode==='pan'){stepPan(point.x-start.x);}
+}
+function handleUp(e){
+if(!pointers[e.pointerId]){return;}delete pointers[e.pointerId];
+if(mode==='press'&&pressIndex!==null){clearTimer();handlers.onPress(pressIndex);}
+mode=count()?'done':null;
+}
+function handleCancel(e){if(!pointers[e.pointerId]){return;}delete pointers[e.pointerId];clearTimer();mode=count()?'done':null;}
+target.addEventListener('pointerdown',handleDown);
+target.addEventListener('pointermove',handleMove);
+target.addEventListener('pointerup',handleUp);
+target.addEventListener('pointercancel',handleCancel);
+target.addEventListener('pointerleave',handleCancel);
+return function(){
+clearTimer();
+target.removeEventListener('pointerdown',handleDown);
+target.removeEventListener('pointermove',handleMove);
+target.removeEventListener('pointerup',handleUp);
+target.removeEventListener('pointercancel',handleCancel);
+target.removeEventListener('pointerleave',handleCancel);
+};
+}`;
@@ -0,0 +1,99 @@
+import { CHART_JS_SOURCE, CHART_JS_VERSION } from './chartRuntime.generated';
+import { CHART_GESTURES_SCRIPT } from './chartGestures';
+import type { ChartSpec } from './chartSpec';
+
+export { CHART_JS_VERSION };
+
+// Messages the chart page posts back to the component hosting its WebView
+export type ChartMessage =
+  | { type: 'ready'; version: string }
+  | { type: 'error'; message: string }
+  | { type: 'barPress'; index: number }
+  | { type: 'barLongPress'; index: number }
+  | { type: 'pan'; steps: number }
+  | { type: 'zoom'; direction: 1 | -1 };
+
+// Messages the host sends into the page once it is ready. A drag pans one
+// step per `panStepBars` bars it covers.
+export type HostMessage = { type: 'render'; spec: ChartSpec; background: string; panStepBars: number };
+
+// Defines `postChartMessage` and reports any uncaught error, including a
+// Chart.js bundle that fails to parse, so the host can show a fallback
+const REPORTER_SCRIPT = `<script>
+function postChartMessage(message){if(window.ReactNativeWebView){window.ReactNativeWebView.postMessage(JSON.stringify(message));}}
+window.onerror=function(message){postChartMessage({type:'error',message:String(message)});};
+</script>`;
+
+// Keeps one chart for the life of the page and updates it in place for
+// each `render` message. Pointer handling is `CHART_GESTURES_SCRIPT`, with
+// drags panning one step per `panStepBars` bars. Android delivers host
+// messages on `document`, iOS on `window`.
+const HOST_SCRIPT = `<script>
+var chart=null;var panStepBars=1;var canvas=document.getElementById('c');
+${CHART_GESTURES_SCRIPT}
+attachChartGestures(canvas,{
+barIndexAt:function(e){var els=chart?chart.getElementsAtEventForMode(e,'nearest',{intersect:true},false):[];return els.length?els[0].index:null;},
+stepWidth:function(){return chart&&chart.chartArea&&chart.data.labels.length?chart.chartArea.width/chart.data.labels.length*panStepBars:1;},
+onPress:function(index){postChartMessage({type:'barPress',index:index});},
+onLongPress:function(index){postChartMessage({type:'barLongPress',index:index});},
+onPan:function(steps){postChartMessage({type:'pan',steps:steps});},
+onZoom:function(direction){postChartMessage({type:'zoom',direction:direction});}
+});
+function renderChart(spec){
+if(chart){chart.data=spec.data;chart.options=spec.options;chart.update('none');}
+else{chart=new Chart(canvas.getContext('2d'),spec);}
+}
+function receiveChartMessage(event){
+try{var message=JSON.parse(event.data);
+if(message.type==='render'){document.body.style.backgroundColor=message.background;panStepBars=message.panStepBars;renderChart(message.spec);}
+}catch(e){postChartMessage({type:'error',message:String((e&&e.message)||e)});}
+}
+window.addEventListener('message',receiveChartMessage);
+document.addEventListener('message',receiveChartMessage);
+if(typeof Chart==='undefined'){postChartMessage({type:'error',message:'Chart.js did not load'});}
+else{postChartMessage({type:'ready',version:Chart.version});}
+</script>`;
+
+/**
+ * Script tags to put in a chart page's <head>: the error reporter and the
+ * Chart.js build bundled with the app, so the page needs no network.
+ */
+export const getChartRuntimeHtml = () =>
+  `${REPORTER_SCRIPT}<script>/* chart.js ${CHART_JS_VERSION} */\n${CHART_JS_SOURCE}</script>`;
+
+/**
+ * The page a chart WebView loads once. It says `ready` when Chart.js is up,
+ * then draws whatever `render` messages it is sent, so changing the data or
+ * theme never reloads it.
+ */
+export const getChartHostHtml = () =>
+  `<!DOCTYPE html><html><head><meta charset='utf-8'/><meta name='viewport' content='width=device-width,initial-scale=1,maximum-scale=1,user-scalable=no'>${getChartRuntimeHtml()}<style>html,body{margin:0;padding:0;background-color:transparent;width:100%;height:100%;-webkit-touch-callout:none;-webkit-user-select:none;user-select:none;}</style></head><body><canvas id='c' style='touch-action:pan-y'></canvas>${HOST_SCRIPT}</body></html>`;
+
+export const serializeHostMessage = (message: HostMessage) => JSON.stringify(message);
+
+// Add a message to those waiting for the page. A newer message of the same
+// type replaces a waiting one, as only the latest render counts.
+export const enqueueHostMessage = (queue: HostMessage[], message: HostMessage): HostMessage[] => [
+  ...queue.filter(queued => queued.type !== message.type),
+  message,
+];
+
+// Read a message from a chart page, or null for anything unrecognised
+export const parseChartMessage = (data: string): ChartMessage | null => {
+  try {
+    const message = JSON.parse(data);
+    switch (message?.type) {
+      case 'ready':
+      case 'error':
+      case 'barPress':
+      case 'barLongPress':
+      case 'pan':
+      case 'zoom':
+        return message as ChartMessage;
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,310 @@
+import { ChartData } from './chartUtils';
+import { BEVERAGE_COLORS } from '@/src/lib/beverages';
+
+export type ChartTheme = 'light' | 'dark';
+
+// Chart data as the renderers receive it; everything but the base series is
+// optional, so placeholder data can be drawn too
+export type ChartSpecData = Pick<ChartData, 'labels' | 'waterData' | 'fatigueData'> &
+  Partial<Omit<ChartData, 'labels' | 'waterData' | 'fatigueData'>>;
+
+// Which series to draw. Derived series are only drawn when present in the data.
+export interface ChartSpecOptions {
+  showWater?: boolean;
+  showFatigue?: boolean;
+  showWaterAverage?: boolean;
+  showFatigueAverage?: boolean;
+  showTrend?: boolean;
+  // Running total, ideal pace and projection on hourly bars
+  showPace?: boolean;
+  // Split water bars into one stacked segment per beverage
+  stackByBeverage?: boolean;
+}
+
+export interface ChartColors {
+  background: string;
+  text: string;
+  grid: string;
+  bar: string;
+  goalMetBar: string;
+  barBorder: string;
+  effective: string;
+  goal: string;
+  previous: string;
+  previousFill: string;
+  waterAverage: string;
+  trend: string;
+  cumulative: string;
+  pace: string;
+  projected: string;
+  fatigue: string;
+  fatigueAverage: string;
+}
+
+// Colours shared by both themes; the rest are set per theme below
+const SERIES_COLORS = {
+  barBorder: 'rgba(53, 162, 235, 1)',
+  effective: 'rgba(14, 165, 233, 1)',
+  goal: 'rgba(34, 197, 94, 1)',
+  previous: 'rgba(148, 163, 184, 0.8)',
+  previousFill: 'rgba(148, 163, 184, 0.2)',
+  waterAverage: 'rgba(30, 64, 175, 1)',
+  trend: 'rgba(100, 116, 139, 1)',
+  cumulative: 'rgba(37, 99, 235, 1)',
+  pace: 'rgba(22, 163, 74, 1)',
+  projected: 'rgba(37, 99, 235, 0.5)',
+  fatigue: 'rgba(255, 99, 132, 1)',
+  fatigueAverage: 'rgba(255, 99, 132, 0.6)',
+};
+
+const THEME_COLORS: Record<ChartTheme, ChartColors> = {
+  light: {
+    ...SERIES_COLORS,
+    background: '#ffffff',
+    text: '#333333',
+    grid: 'rgba(0, 0, 0, 0.1)',
+    bar: 'rgba(53, 162, 235, 0.5)',
+    goalMetBar: 'rgba(34, 197, 94, 0.5)',
+  },
+  dark: {
+    ...SERIES_COLORS,
+    background: '#121212',
+    text: '#ffffff',
+    grid: 'rgba(255, 255, 255, 0.1)',
+    bar: 'rgba(53, 162, 235, 0.7)',
+    goalMetBar: 'rgba(34, 197, 94, 0.7)',
+  },
+};
+
+export const getChartColors = (theme: ChartTheme): ChartColors => THEME_COLORS[theme];
+
+export type ChartAxisId = 'x' | 'y' | 'y1' | 'yTotal';
+
+export interface ChartDatasetSpec {
+  label: string;
+  data: (number | null)[];
+  // Bars unless set
+  type?: 'line';
+  yAxisID: Exclude<ChartAxisId, 'x'>;
+  backgroundColor?: string | string[];
+  borderColor?: string;
+  borderWidth?: number;
+  borderDash?: number[];
+  pointRadius?: number;
+  pointBackgroundColor?: string;
+  fill?: boolean;
+  stepped?: 'middle';
+  tension?: number;
+  order?: number;
+  // Lines get a stack of their own so they are not stacked with the bars
+  stack?: string;
+}
+
+export interface ChartAxisSpec {
+  position?: 'left' | 'right';
+  beginAtZero?: boolean;
+  min?: number;
+  max?: number;
+  stacked?: boolean;
+  title?: { display: boolean; text: string; color: string };
+  grid: { color?: string; display?: boolean };
+  ticks: { color: string; stepSize?: number; maxRotation?: number; minRotation?: number };
+}
+
+/**
+ * A Chart.js configuration with nothing but plain data in it, so it can be
+ * handed to a canvas directly or serialised into a WebView page. Renderers
+ * add their own tap handling on top.
+ */
+export interface ChartSpec {
+  type: 'bar';
+  data: { labels: string[]; datasets: ChartDatasetSpec[] };
+  options: {
+    responsive: boolean;
+    maintainAspectRatio: boolean;
+    animation: boolean;
+    scales: Partial<Record<ChartAxisId, ChartAxisSpec>>;
+    plugins: { legend: { labels: { color: string } } };
+  };
+}
+
+// A line over the bars, without points unless asked for
+const line = (
+  label: string,
+  data: (number | null)[],
+  color: string,
+  yAxisID: ChartDatasetSpec['yAxisID'],
+  extra: Partial<ChartDatasetSpec> = {}
+): ChartDatasetSpec => ({
+  label,
+  data,
+  type: 'line',
+  fill: false,
+  borderColor: color,
+  borderWidth: 2,
+  pointRadius: 0,
+  yAxisID,
+  ...extra,
+});
+
+/**
+ * Build the chart for `data` in `theme`. Every renderer draws from this, so
+ * a new series or axis only needs adding here.
+ */
+export const buildChartSpec = (
+  data: ChartSpecData,
+  options: ChartSpecOptions = {},
+  theme: ChartTheme = 'light'
+): ChartSpec => {
+  const {
+    showWater = true,
+    showFatigue = true,
+    showWaterAverage = false,
+    showFatigueAverage = false,
+    showTrend = false,
+    showPace = false,
+    stackByBeverage = false,
+  } = options;
+  const colors = getChartColors(theme);
+  const datasets: ChartDatasetSpec[] = [];
+
+  const isStacked = showWater && stackByBeverage && !!data.beverageSeries?.length;
+  if (isStacked) {
+    // One bar segment per beverage, adding up to the bucket's total
+    for (const series of data.beverageSeries ?? []) {
+      datasets.push({
+        label: series.label,
+        data: series.data,
+        backgroundColor: BEVERAGE_COLORS[series.beverage],
+        stack: 'beverages',
+        yAxisID: 'y',
+      });
+    }
+  } else if (showWater) {
+    datasets.push({
+      label: data.waterLabel ?? 'Water',
+      data: data.waterData,
+      // Bars for days that reached the goal are drawn green
+      backgroundColor: data.goalMet
+        ? data.goalMet.map(met => (met ? colors.goalMetBar : colors.bar))
+        : colors.bar,
+      borderColor: colors.barBorder,
+      borderWidth: 1,
+      yAxisID: 'y',
+    });
+  }
+
+  if (showWater) {
+    // Effective hydration only differs from raw volume for non-water drinks
+    if (data.effectiveData?.some((value, i) => value !== data.waterData[i])) {
+      datasets.push(line('Effective hydration', data.effectiveData, colors.effective, 'y', {
+        pointRadius: 2,
+        stack: 'effective',
+      }));
+    }
+    if (data.goalData) {
+      datasets.push(line('Goal', data.goalData, colors.goal, 'y', { borderDash: [6, 4], stack: 'goal' }));
+    }
+    if (data.previousWaterData) {
+      // Ghost of the previous window, drawn as a faint stepped area behind the bars
+      datasets.push(line('Previous period', data.previousWaterData, colors.previous, 'y', {
+        fill: true,
+        stepped: 'middle',
+        backgroundColor: colors.previousFill,
+        borderWidth: 1,
+        order: 1,
+        stack: 'previous',
+      }));
+    }
+  }
+
+  if (showWaterAverage && data.waterAverage) {
+    datasets.push(line('7-day average', data.waterAverage, colors.waterAverage, 'y', {
+      tension: 0.3,
+      stack: 'waterAverage',
+    }));
+  }
+  if (showTrend && data.waterTrend) {
+    datasets.push(line('Trend', data.waterTrend, colors.trend, 'y', { borderDash: [2, 3], stack: 'trend' }));
+  }
+
+  // Running totals dwarf hourly bars, so they get their own axis
+  const showTotalAxis = showPace && !!data.cumulativeData;
+  if (showTotalAxis && data.cumulativeData) {
+    datasets.push(line('Total so far', data.cumulativeData, colors.cumulative, 'yTotal', {
+      borderWidth: 3,
+      stack: 'cumulative',
+    }));
+    if (data.paceData) {
+      datasets.push(line('Ideal pace', data.paceData, colors.pace, 'yTotal', { borderDash: [4, 4], stack: 'pace' }));
+    }
+    if (data.projectedData) {
+      datasets.push(line('Projected', data.projectedData, colors.projected, 'yTotal', {
+        borderDash: [2, 3],
+        stack: 'projected',
+      }));
+    }
+  }
+
+  if (showFatigue) {
+    datasets.push(line('Fatigue (1-5)', data.fatigueData, colors.fatigue, 'y1', {
+      pointRadius: 3,
+      pointBackgroundColor: colors.fatigue,
+    }));
+  }
+  if (showFatigueAverage && data.fatigueAverage) {
+    datasets.push(line('Fatigue average', data.fatigueAverage, colors.fatigueAverage, 'y1', {
+      borderDash: [4, 4],
+      tension: 0.3,
+    }));
+  }
+  const showFatigueAxis = showFatigue || (showFatigueAverage && !!data.fatigueAverage);
+
+  const title = (text: string) => ({ display: true, text, color: colors.text });
+  const scales: ChartSpec['options']['scales'] = {
+    y: {
+      beginAtZero: true,
+      stacked: isStacked,
+      title: title(data.waterLabel ?? 'Water'),
+      grid: { color: colors.grid },
+      ticks: { color: colors.text },
+    },
+  };
+  if (showTotalAxis) {
+    scales.yTotal = {
+      position: 'left',
+      beginAtZero: true,
+      title: title('Running total'),
+      grid: { display: false },
+      ticks: { color: colors.text },
+    };
+  }
+  if (showFatigueAxis) {
+    scales.y1 = {
+      position: 'right',
+      beginAtZero: true,
+      min: 0,
+      max: 5,
+      title: title('Fatigue (1-5)'),
+      grid: { display: false },
+      ticks: { color: colors.text, stepSize: 1 },
+    };
+  }
+  scales.x = {
+    stacked: isStacked,
+    grid: { color: colors.grid },
+    ticks: { color: colors.text, maxRotation: 45, minRotation: 45 },
+  };
+
+  return {
+    type: 'bar',
+    data: { labels: data.labels, datasets },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: false,
+      scales,
+      plugins: { legend: { labels: { color: colors.text } } },
+    },
+  };
+};
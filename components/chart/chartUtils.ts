@@ -1,150 +1,715 @@
 import { Timestamp } from 'firebase/firestore';
+import { BeverageProfile, BeverageType, DateRange, VolumeUnit, ZoneView } from '@/src/lib/storage/types';
+import {
+  DayBoundary,
+  DEFAULT_DAY_BOUNDARY,
+  addPeriods,
+  countDays,
+  endOfDay,
+  endOfPeriod,
+  getPreviousRange,
+  getRangeEndingAt,
+  startOfDay,
+  startOfPeriod,
+  startOfWeek,
+  toDayKey,
+  toLogicalDay,
+  toViewDate,
+} from '@/src/lib/dateRanges';
+import { BucketSize, SpanUnit, TimeSpan, getBucketSize } from '@/src/lib/timeSpans';
+import { UNIT_LABELS, roundForUnit } from '@/src/lib/units';
+import {
+  BEVERAGE_TYPES,
+  DEFAULT_BEVERAGE_PROFILES,
+  getBeverage,
+  getBeverageLabel,
+  getEffectiveMl,
+} from '@/src/lib/beverages';
+
+type BeverageProfiles = Record<BeverageType, BeverageProfile>;
+
+// Raw volume of one beverage per bucket, for stacked bars
+export interface BeverageSeries {
+  beverage: BeverageType;
+  label: string;
+  data: number[];
+}
 
 // Interface for chart data
 export interface ChartData {
   labels: string[];
+  // Raw volume drunk per bucket
   waterData: number[];
+  // Volume weighted by each beverage's hydration factor
+  effectiveData: number[];
   fatigueData: number[];
+  // One series per beverage that appears in the window, in display order
+  beverageSeries: BeverageSeries[];
+  // Legend label for the water series, including its unit
+  waterLabel?: string;
+  // Goal for each bucket, drawn as a reference line
+  goalData?: number[];
+  // Whether the day a bucket belongs to reached the daily goal
+  goalMet?: boolean[];
+  // What one bar covers. Week and month bars hold daily averages.
+  bucketSize?: BucketSize;
+  // Start of each bucket; hourly bars only have them for a known day
+  bucketStarts?: Date[];
+  // Derived series, null where there is nothing to show (e.g. days still
+  // ahead in the window). Trailing average of intake over 7 days, daily
+  // bars only.
+  waterAverage?: (number | null)[];
+  // Trailing average of fatigue over the same days, skipping days without entries
+  fatigueAverage?: (number | null)[];
+  // Least-squares line through intake across the window
+  waterTrend?: (number | null)[];
+  // Intake in the preceding window of the same span, bucket for bucket
+  previousWaterData?: number[];
+  // Hourly bars only. Effective intake so far at the end of each hour, null
+  // for hours still ahead.
+  cumulativeData?: (number | null)[];
+  // Total that would reach the goal at bedtime if drunk evenly from waking
+  paceData?: number[];
+  // Where today's total is heading if the rest of the day goes as usual,
+  // from the current hour on
+  projectedData?: (number | null)[];
+  // End of `projectedData`, in ml whatever the display unit
+  projectedTotalMl?: number;
+}
+
+// Extra inputs for building chart data
+export interface ChartDataOptions {
+  // Daily hydration goal in ml; leave out to skip the goal series
+  dailyGoalMl?: number;
+  // Unit the water and goal series are shown in, cups by default
+  unit?: VolumeUnit;
+  // Hydration factors to apply, defaults when omitted
+  beverages?: BeverageProfiles;
+  // Bucket by the device's zone (default) or the zone each entry was logged in
+  zoneView?: ZoneView;
+  // Hour (0-23) the user's day starts at, midnight by default
+  dayStartHour?: number;
+  // Weekday (0 = Sunday) weekly buckets start on
+  weekStartDay?: number;
+  // Entries from the window before this one; adds `previousWaterData`
+  previousEntries?: WaterLogEntry[];
+  // Hours (0-23) the ideal pace runs between in the day view
+  wakeHour?: number;
+  bedHour?: number;
+  // Entries from the weeks before the day shown, for its projected total
+  historyEntries?: WaterLogEntry[];
 }
 
 // Update WaterLogEntry type to make userId optional
 export interface WaterLogEntry {
   id?: string;
   userId?: string;  // Make userId optional
-  amountCups: number;
+  amountMl: number;
+  beverage?: BeverageType;
   fatigue: number; // 1-5 scale
   timestamp: Date | { toDate: () => Date };
+  tzOffsetMinutes?: number;
+}
+
+// Read an entry's timestamp as a JS Date
+export const getEntryDate = (entry: WaterLogEntry): Date =>
+  entry.timestamp instanceof Date ? entry.timestamp : entry.timestamp.toDate();
+
+// Running totals for one bar of the chart
+interface Bucket {
+  waterTotal: number;
+  effectiveTotal: number;
+  byBeverage: Partial<Record<BeverageType, number>>;
+  fatigueCount: number;
+  fatigueSum: number;
 }
 
-// Function to group entries by hour (for day view)
-export const groupEntriesByHour = (entries: WaterLogEntry[]): ChartData => {
+const createBucket = (): Bucket => ({
+  waterTotal: 0,
+  effectiveTotal: 0,
+  byBeverage: {},
+  fatigueCount: 0,
+  fatigueSum: 0,
+});
+
+const addToBucket = (bucket: Bucket, entry: WaterLogEntry, profiles: BeverageProfiles) => {
+  const beverage = getBeverage(entry);
+  bucket.waterTotal += entry.amountMl;
+  bucket.effectiveTotal += getEffectiveMl(entry, profiles);
+  bucket.byBeverage[beverage] = (bucket.byBeverage[beverage] ?? 0) + entry.amountMl;
+  bucket.fatigueSum += entry.fatigue;
+  bucket.fatigueCount += 1;
+};
+
+// Turn filled buckets into the series the chart draws
+const toChartData = (labels: string[], buckets: Bucket[], profiles: BeverageProfiles): ChartData => ({
+  labels,
+  waterData: buckets.map(bucket => bucket.waterTotal),
+  effectiveData: buckets.map(bucket => bucket.effectiveTotal),
+  fatigueData: buckets.map(bucket =>
+    bucket.fatigueCount ? bucket.fatigueSum / bucket.fatigueCount : 0
+  ),
+  beverageSeries: BEVERAGE_TYPES
+    .filter(beverage => buckets.some(bucket => bucket.byBeverage[beverage]))
+    .map(beverage => ({
+      beverage,
+      label: getBeverageLabel(beverage, profiles),
+      data: buckets.map(bucket => bucket.byBeverage[beverage] ?? 0),
+    })),
+});
+
+// Function to group entries by hour (for day view). Buckets run from the
+// hour the user's day starts at, so the late-night hours come last. Pass
+// the start of the logical `day` to get each bucket's start as well.
+export const groupEntriesByHour = (
+  entries: WaterLogEntry[],
+  profiles: BeverageProfiles = DEFAULT_BEVERAGE_PROFILES,
+  dayStartHour = 0,
+  day?: Date
+): ChartData => {
   // Create 24 hour buckets
-  const hourBuckets: { waterTotal: number; fatigueCount: number; fatigueSum: number }[] = 
-    Array(24).fill(null).map(() => ({
-      waterTotal: 0,
-      fatigueCount: 0,
-      fatigueSum: 0
-    }));
+  const hourBuckets = Array(24).fill(null).map(createBucket);
 
   // Group entries by hour
   for (const entry of entries) {
-    const date = entry.timestamp instanceof Date ? entry.timestamp : entry.timestamp.toDate();
-    const hour = date.getHours();
-    hourBuckets[hour].waterTotal += entry.amountCups;
-    hourBuckets[hour].fatigueSum += entry.fatigue;
-    hourBuckets[hour].fatigueCount += 1;
+    const bucketIndex = (getEntryDate(entry).getHours() - dayStartHour + 24) % 24;
+    addToBucket(hourBuckets[bucketIndex], entry, profiles);
   }
 
   // Create labels for hours
   const labels = Array(24).fill(null).map((_, i) => {
-    const hour = i % 12 || 12;
-    const ampm = i < 12 ? 'AM' : 'PM';
+    const hourOfDay = (i + dayStartHour) % 24;
+    const hour = hourOfDay % 12 || 12;
+    const ampm = hourOfDay < 12 ? 'AM' : 'PM';
     return `${hour}${ampm}`;
   });
 
-  // Calculate average fatigue per hour
-  const waterData = hourBuckets.map(bucket => bucket.waterTotal);
-  const fatigueData = hourBuckets.map(bucket => 
-    bucket.fatigueCount ? bucket.fatigueSum / bucket.fatigueCount : 0
-  );
+  // Stepped by wall-clock hour, matching how entries were bucketed above
+  const bucketStarts = day && Array(24).fill(null).map((_, i) => {
+    const start = new Date(day);
+    start.setHours(day.getHours() + i, 0, 0, 0);
+    return start;
+  });
 
-  return { labels, waterData, fatigueData };
+  return {
+    ...toChartData(labels, hourBuckets, profiles),
+    bucketSize: 'hour',
+    ...(bucketStarts && { bucketStarts }),
+  };
 };
 
-// Function to group entries by day within a specified window length
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Label for the bucket starting on the logical day `day`
+const formatBucketLabel = (day: Date, bucket: SpanUnit) =>
+  bucket === 'month'
+    ? `${MONTH_NAMES[day.getMonth()]} '${String(day.getFullYear()).slice(2)}`
+    : `${day.getMonth() + 1}/${day.getDate()}`;
+
+// Turn a bucket's totals into a daily average over `days` days
+const averageBucket = (bucket: Bucket, days: number) => {
+  bucket.waterTotal /= days;
+  bucket.effectiveTotal /= days;
+  for (const beverage of Object.keys(bucket.byBeverage) as BeverageType[]) {
+    bucket.byBeverage[beverage] = (bucket.byBeverage[beverage] ?? 0) / days;
+  }
+};
+
+/**
+ * Group entries into one bucket per day, week or month of `range`. Buckets
+ * are stepped by calendar date, not by fixed lengths, since days around DST
+ * changes are 23 or 25 hours long. Week and month buckets hold the daily
+ * average over the days that have started so far, so they read on the same
+ * scale as daily bars and the daily goal.
+ */
+export const groupEntriesByPeriod = (
+  entries: WaterLogEntry[],
+  range: DateRange,
+  bucket: SpanUnit,
+  profiles: BeverageProfiles = DEFAULT_BEVERAGE_PROFILES,
+  boundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): ChartData => {
+  const { dayStartHour } = boundary;
+  const bucketKey = (date: Date) =>
+    toDayKey(toLogicalDay(startOfPeriod(date, bucket, boundary), dayStartHour));
+
+  const starts: Date[] = [];
+  for (
+    let start = startOfPeriod(range.start, bucket, boundary);
+    start <= range.end;
+    start = addPeriods(start, bucket, 1)
+  ) {
+    starts.push(start);
+  }
+  const buckets = starts.map(createBucket);
+  const bucketIndexByKey = new Map(starts.map((start, i) => [bucketKey(start), i]));
+
+  // Aggregate entries into the bucket for their logical day
+  for (const entry of entries) {
+    const bucketIndex = bucketIndexByKey.get(bucketKey(getEntryDate(entry)));
+    if (bucketIndex !== undefined) {
+      addToBucket(buckets[bucketIndex], entry, profiles);
+    }
+  }
+
+  if (bucket !== 'day') {
+    const today = endOfDay(new Date(), dayStartHour);
+    starts.forEach((start, i) => {
+      const end = endOfPeriod(start, bucket, boundary);
+      const days = countDays({ start, end: end < today ? end : today });
+      averageBucket(buckets[i], Math.max(days, 1));
+    });
+  }
+
+  const labels = starts.map(start => formatBucketLabel(toLogicalDay(start, dayStartHour), bucket));
+
+  return { ...toChartData(labels, buckets, profiles), bucketSize: bucket, bucketStarts: starts };
+};
+
+// Function to group entries by day within a specified window length.
+// Pass `end` to pin the window to a known last day; otherwise the window ends
+// on the day of the latest entry. Days start at `dayStartHour`, so earlier
+// entries count towards the previous day.
 export const groupEntriesByDay = (
   entries: WaterLogEntry[],
-  days: number
+  days: number,
+  end?: Date,
+  profiles: BeverageProfiles = DEFAULT_BEVERAGE_PROFILES,
+  dayStartHour = 0
 ): ChartData => {
   if (days <= 0) days = 1;
 
   // Determine window end date based on latest date in entries to preserve alignment with recent date
   let windowEnd: Date;
-  if (entries.length > 0) {
-    const latestEntry = entries.reduce((prev, curr) => {
-      const prevDate = prev.timestamp instanceof Date ? prev.timestamp : prev.timestamp.toDate();
-      const currDate = curr.timestamp instanceof Date ? curr.timestamp : curr.timestamp.toDate();
-      return prevDate >= currDate ? prev : curr;
-    });
-    windowEnd = latestEntry.timestamp instanceof Date ? latestEntry.timestamp : latestEntry.timestamp.toDate();
-    windowEnd = new Date(windowEnd);
-    windowEnd.setHours(23, 59, 59, 999);
+  if (end) {
+    windowEnd = endOfDay(end, dayStartHour);
+  } else if (entries.length > 0) {
+    const latestEntry = entries.reduce((prev, curr) =>
+      getEntryDate(prev) >= getEntryDate(curr) ? prev : curr
+    );
+    windowEnd = endOfDay(getEntryDate(latestEntry), dayStartHour);
   } else {
-    windowEnd = new Date();
-    windowEnd.setHours(23, 59, 59, 999);
+    windowEnd = endOfDay(new Date(), dayStartHour);
   }
 
-  // Calculate window start from window end
-  const windowStart = (() => {
-    const start = new Date(windowEnd);
-    start.setHours(0, 0, 0, 0);
-    start.setDate(windowEnd.getDate() - (days - 1));
-    return start;
-  })();
-
-  // Create buckets for each day in the window
-  const dayBuckets: {
-    waterTotal: number;
-    fatigueCount: number;
-    fatigueSum: number;
-    date: Date;
-  }[] = Array(days)
-    .fill(null)
-    .map((_, i) => {
-      const date = new Date(windowStart);
-      date.setDate(windowStart.getDate() + i);
-      return {
-        waterTotal: 0,
-        fatigueCount: 0,
-        fatigueSum: 0,
-        date,
-      };
-    });
+  const windowStart = startOfDay(windowEnd, dayStartHour);
+  windowStart.setDate(windowStart.getDate() - (days - 1));
 
-  // Aggregate entries into buckets
-  for (const entry of entries) {
-    const entryDate = entry.timestamp instanceof Date ? entry.timestamp : entry.timestamp.toDate();
-    const bucketIndex = Math.floor((entryDate.getTime() - windowStart.getTime()) / (24 * 60 * 60 * 1000));
-    if (bucketIndex >= 0 && bucketIndex < dayBuckets.length) {
-      const bucket = dayBuckets[bucketIndex];
-      bucket.waterTotal += entry.amountCups;
-      bucket.fatigueSum += entry.fatigue;
-      bucket.fatigueCount += 1;
-    }
+  return groupEntriesByPeriod(
+    entries,
+    { start: windowStart, end: windowEnd },
+    'day',
+    profiles,
+    { ...DEFAULT_DAY_BOUNDARY, dayStartHour }
+  );
+};
+
+// Buckets in the rolling averages of daily bars
+const ROLLING_DAYS = 7;
+
+// Mean of the values present, null when there are none
+const meanOf = (values: (number | null)[]): number | null => {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+};
+
+// Trailing average over up to `size` buckets ending at each bucket. Early
+// buckets average over the part of the window loaded so far.
+export const rollingAverage = (values: (number | null)[], size: number): (number | null)[] =>
+  values.map((_, i) => meanOf(values.slice(Math.max(0, i - size + 1), i + 1)));
+
+// Least-squares line through the values present, evaluated at every bucket
+export const linearTrend = (values: (number | null)[]): (number | null)[] => {
+  const points = values
+    .map((value, x) => ({ x, y: value }))
+    .filter((point): point is { x: number; y: number } => point.y !== null);
+  if (points.length < 2) return values.map(() => null);
+
+  const n = points.length;
+  const sumX = points.reduce((sum, point) => sum + point.x, 0);
+  const sumY = points.reduce((sum, point) => sum + point.y, 0);
+  const sumXY = points.reduce((sum, point) => sum + point.x * point.y, 0);
+  const sumXX = points.reduce((sum, point) => sum + point.x * point.x, 0);
+  const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+  const intercept = (sumY - slope * sumX) / n;
+
+  return values.map((_, x) => intercept + slope * x);
+};
+
+/**
+ * Add the rolling averages and trend line. Buckets that have not started
+ * yet are left out of every series, so an aligned week viewed on a Tuesday
+ * does not average or trend towards the empty days ahead. Hourly bars get
+ * no derived series.
+ */
+export const addTrendSeries = (data: ChartData, now: Date = new Date()): ChartData => {
+  if (data.bucketSize === 'hour') return data;
+
+  const started = data.bucketStarts
+    ? data.bucketStarts.filter(start => start <= now).length
+    : data.labels.length;
+  const upToNow = <T>(values: T[]): (T | null)[] => values.map((value, i) => (i < started ? value : null));
+
+  const water = upToNow(data.waterData);
+  const fatigue = upToNow(data.fatigueData.map(value => value || null));
+  return {
+    ...data,
+    ...(data.bucketSize === 'day' && {
+      waterAverage: upToNow(rollingAverage(water, ROLLING_DAYS)),
+      fatigueAverage: upToNow(rollingAverage(fatigue, ROLLING_DAYS)),
+    }),
+    waterTrend: upToNow(linearTrend(water)),
+  };
+};
+
+// Fewest past days with entries before projecting a day's total
+const MIN_HISTORY_DAYS = 3;
+
+/**
+ * Average effective intake in each hourly bucket over the days of `history`
+ * that have entries, or null when there are too few such days to go on.
+ */
+export const typicalHourlyIntake = (
+  history: WaterLogEntry[],
+  profiles: BeverageProfiles = DEFAULT_BEVERAGE_PROFILES,
+  dayStartHour = 0
+): number[] | null => {
+  const days = new Set(history.map(entry => toDayKey(toLogicalDay(getEntryDate(entry), dayStartHour))));
+  if (days.size < MIN_HISTORY_DAYS) return null;
+  return groupEntriesByHour(history, profiles, dayStartHour).effectiveData.map(ml => ml / days.size);
+};
+
+export interface PaceOptions {
+  dailyGoalMl: number;
+  wakeHour: number;
+  bedHour: number;
+  dayStartHour?: number;
+  // Average intake per hourly bucket on past days, see `typicalHourlyIntake`
+  typicalIntake?: number[] | null;
+}
+
+/**
+ * Add the running total, ideal pace and projection to hourly bars for the
+ * day starting at `dayStart`. The pace rises evenly from waking to bedtime;
+ * hours before the day start hour count as the start of the day. The
+ * projection only applies while the day is under way.
+ */
+export const addPaceSeries = (
+  data: ChartData,
+  dayStart: Date,
+  options: PaceOptions,
+  now: Date = new Date()
+): ChartData => {
+  if (data.bucketSize !== 'hour') return data;
+  const { dailyGoalMl, dayStartHour = 0, typicalIntake } = options;
+
+  // Hours that have begun, stepped by wall clock like the buckets
+  const started = data.labels.filter((_, i) => {
+    const hourStart = new Date(dayStart);
+    hourStart.setHours(dayStart.getHours() + i);
+    return hourStart <= now;
+  }).length;
+
+  let total = 0;
+  const running = data.effectiveData.map(ml => (total += ml));
+  const cumulativeData = running.map((ml, i) => (i < started ? ml : null));
+
+  const toIndex = (hour: number) => Math.max(hour - dayStartHour, 0);
+  const wakeIndex = toIndex(options.wakeHour);
+  const bedIndex = Math.max(toIndex(options.bedHour), wakeIndex + 1);
+  const paceData = data.labels.map((_, i) =>
+    dailyGoalMl * Math.min(Math.max((i + 1 - wakeIndex) / (bedIndex - wakeIndex), 0), 1)
+  );
+
+  if (!typicalIntake || started === 0 || started === data.labels.length) {
+    return { ...data, cumulativeData, paceData };
   }
 
-  // Labels and data arrays
-  const labels = dayBuckets.map((bucket) => {
-    const d = bucket.date;
-    return `${d.getMonth() + 1}/${d.getDate()}`;
+  let projected = running[started - 1];
+  const projectedData = data.labels.map((_, i) => {
+    if (i < started - 1) return null;
+    if (i >= started) projected += typicalIntake[i] ?? 0;
+    return projected;
   });
+  return { ...data, cumulativeData, paceData, projectedData, projectedTotalMl: projected };
+};
 
-  const waterData = dayBuckets.map((b) => b.waterTotal);
-  const fatigueData = dayBuckets.map((b) => (b.fatigueCount ? b.fatigueSum / b.fatigueCount : 0));
+// Add the goal reference line and per-bucket goal status.
+// Daily buckets, and the daily averages in weekly and monthly ones, compare
+// against the full goal; hourly buckets (day view) get an even hourly share
+// of it and are all marked by the day's total. Goals are met by effective
+// hydration, not raw volume.
+export const addGoalSeries = (data: ChartData, dailyGoal: number): ChartData => {
+  if (data.bucketSize === 'hour') {
+    const dayTotal = data.effectiveData.reduce((sum, value) => sum + value, 0);
+    return {
+      ...data,
+      goalData: data.labels.map(() => dailyGoal / data.labels.length),
+      goalMet: data.labels.map(() => dayTotal >= dailyGoal),
+    };
+  }
 
-  return { labels, waterData, fatigueData };
+  return {
+    ...data,
+    goalData: data.labels.map(() => dailyGoal),
+    goalMet: data.effectiveData.map(value => value >= dailyGoal),
+  };
 };
 
-// Convert log entries to chart data based on timespan
+// Convert the millilitre series built above into the display unit
+export const convertVolumes = (data: ChartData, unit: VolumeUnit): ChartData => ({
+  ...data,
+  waterLabel: data.bucketSize === 'week' || data.bucketSize === 'month'
+    ? `Water (${UNIT_LABELS[unit]} per day)`
+    : `Water (${UNIT_LABELS[unit]})`,
+  waterData: data.waterData.map(ml => roundForUnit(ml, unit)),
+  effectiveData: data.effectiveData.map(ml => roundForUnit(ml, unit)),
+  beverageSeries: data.beverageSeries.map(series => ({
+    ...series,
+    data: series.data.map(ml => roundForUnit(ml, unit)),
+  })),
+  goalData: data.goalData?.map(ml => roundForUnit(ml, unit)),
+  waterAverage: data.waterAverage?.map(ml => (ml === null ? null : roundForUnit(ml, unit))),
+  waterTrend: data.waterTrend?.map(ml => (ml === null ? null : roundForUnit(ml, unit))),
+  previousWaterData: data.previousWaterData?.map(ml => roundForUnit(ml, unit)),
+  cumulativeData: data.cumulativeData?.map(ml => (ml === null ? null : roundForUnit(ml, unit))),
+  paceData: data.paceData?.map(ml => roundForUnit(ml, unit)),
+  projectedData: data.projectedData?.map(ml => (ml === null ? null : roundForUnit(ml, unit))),
+});
+
+// Totals for one window, for comparing it with another
+export interface PeriodSummary {
+  totalMl: number;
+  // Total over the days of the window that have started
+  dailyAverageMl: number;
+  // Mean of every fatigue rating, null without entries
+  meanFatigue: number | null;
+}
+
+export const summarizePeriod = (
+  entries: WaterLogEntry[],
+  range: DateRange,
+  dayStartHour = 0,
+  now: Date = new Date()
+): PeriodSummary => {
+  const today = endOfDay(now, dayStartHour);
+  const days = countDays({ start: range.start, end: range.end < today ? range.end : today });
+  const totalMl = entries.reduce((sum, entry) => sum + entry.amountMl, 0);
+  const fatigueSum = entries.reduce((sum, entry) => sum + entry.fatigue, 0);
+
+  return {
+    totalMl,
+    dailyAverageMl: totalMl / Math.max(days, 1),
+    meanFatigue: entries.length ? fatigueSum / entries.length : null,
+  };
+};
+
+// Shift entries to the wall clock they should be bucketed by
+const toViewEntries = (entries: WaterLogEntry[], zoneView?: ZoneView) =>
+  zoneView === 'logged'
+    ? entries.map(entry => ({
+        ...entry,
+        timestamp: toViewDate(getEntryDate(entry), entry.tzOffsetMinutes, 'logged'),
+      }))
+    : entries;
+
+// Convert log entries to chart data based on timespan. The window ends on
+// the day of `windowEnd` (the latest entry when left out) and reaches back
+// the span's length; bars switch from hours to days, weeks or months as the
+// window grows so they stay readable.
 export const processEntriesForChart = (
   entries: WaterLogEntry[], 
-  timespan: 'day' | 'week' | 'twoweeks' | 'month'
+  timespan: TimeSpan,
+  windowEnd?: Date,
+  options: ChartDataOptions = {}
 ): ChartData => {
-  switch (timespan) {
-    case 'day':
-      // Group entries for whichever day is represented in the provided entries array
-      return groupEntriesByHour(entries);
-    
-    case 'week':
-      return groupEntriesByDay(entries, 7);
-    
-    case 'twoweeks':
-      return groupEntriesByDay(entries, 14);
-    
-    case 'month':
-      return groupEntriesByDay(entries, 30);
-    
-    default:
-      return groupEntriesByDay(entries, 7);
+  const profiles = options.beverages ?? DEFAULT_BEVERAGE_PROFILES;
+  const boundary: DayBoundary = {
+    dayStartHour: options.dayStartHour ?? 0,
+    weekStartDay: options.weekStartDay ?? 0,
+  };
+
+  entries = toViewEntries(entries, options.zoneView);
+
+  // First and last entry, for windows that follow the data
+  let earliest: Date | null = null;
+  let latest: Date | null = null;
+  for (const entry of entries) {
+    const date = getEntryDate(entry);
+    if (!earliest || date < earliest) earliest = date;
+    if (!latest || date > latest) latest = date;
+  }
+
+  const range = getRangeEndingAt(timespan, windowEnd ?? latest ?? new Date(), boundary, earliest);
+  const bucket = getBucketSize(countDays(range));
+
+  const group = (list: WaterLogEntry[], window: DateRange) =>
+    bucket === 'hour'
+      ? groupEntriesByHour(list, profiles, boundary.dayStartHour, window.start)
+      : groupEntriesByPeriod(list, window, bucket, profiles, boundary);
+
+  let data = group(entries, range);
+
+  // Ghost of the previous window, padded or cut to line up with this one
+  if (options.previousEntries) {
+    const previous = group(toViewEntries(options.previousEntries, options.zoneView), getPreviousRange(timespan, range, boundary));
+    data.previousWaterData = data.labels.map((_, i) => previous.waterData[i] ?? 0);
   }
-}; 
\ No newline at end of file
+
+  data = addTrendSeries(data);
+  if (options.dailyGoalMl) {
+    data = addPaceSeries(data, range.start, {
+      dailyGoalMl: options.dailyGoalMl,
+      wakeHour: options.wakeHour ?? 7,
+      bedHour: options.bedHour ?? 22,
+      dayStartHour: boundary.dayStartHour,
+      typicalIntake: options.historyEntries
+        ? typicalHourlyIntake(toViewEntries(options.historyEntries, options.zoneView), profiles, boundary.dayStartHour)
+        : null,
+    });
+    data = addGoalSeries(data, options.dailyGoalMl);
+  }
+  return convertVolumes(data, options.unit ?? 'cups');
+};
+
+// One bar of the chart as tap handlers receive it
+export interface ChartBucket {
+  index: number;
+  size: BucketSize;
+  // First and last millisecond the bar covers
+  start: Date;
+  end: Date;
+  // Entries counted in the bar, as logged
+  entries: WaterLogEntry[];
+}
+
+/**
+ * Describe bar `index` of `data`, with the `entries` the chart was built
+ * from that fall inside it. Null when the data does not know where its bars
+ * start, as for placeholder data.
+ */
+export const getChartBucket = (
+  data: Pick<ChartData, 'bucketSize' | 'bucketStarts'>,
+  index: number,
+  entries: WaterLogEntry[],
+  zoneView?: ZoneView
+): ChartBucket | null => {
+  const start = data.bucketStarts?.[index];
+  const size = data.bucketSize;
+  if (!start || !size) return null;
+
+  // A bar ends where the next one starts; the last one runs a whole period
+  const next = data.bucketStarts?.[index + 1] ?? (size === 'hour'
+    ? new Date(new Date(start).setHours(start.getHours() + 1))
+    : addPeriods(start, size, 1));
+  const end = new Date(next.getTime() - 1);
+
+  return {
+    index,
+    size,
+    start,
+    end,
+    // Matched by the same wall clock the bars were bucketed by
+    entries: entries.filter(entry => {
+      const date = toViewDate(getEntryDate(entry), entry.tzOffsetMinutes, zoneView ?? 'current');
+      return date >= start && date <= end;
+    }),
+  };
+};
+
+// Calendar heatmap: a month as a grid of weeks, or a year as GitHub-style
+// columns of weeks with one row per weekday
+export type HeatmapLayout = 'month' | 'year';
+
+export interface HeatmapCell {
+  // Logical day, as local midnight
+  day: Date;
+  row: number;
+  column: number;
+  // Effective intake as a share of the daily goal, null for days ahead
+  goalRatio: number | null;
+  // Mean fatigue that day, null without entries
+  fatigue: number | null;
+}
+
+export interface HeatmapData {
+  layout: HeatmapLayout;
+  rows: number;
+  columns: number;
+  cells: HeatmapCell[];
+  // Weekday initials along the top (month) or side (year)
+  weekdayLabels: string[];
+  // Year layout only: month name over the first week of each month
+  columnLabels: (string | null)[];
+}
+
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Days a heatmap covers: the month containing `date`, or the twelve months
+// ending with it
+export const getHeatmapRange = (
+  layout: HeatmapLayout,
+  date: Date,
+  boundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): DateRange => {
+  const end = endOfPeriod(date, 'month', boundary);
+  const start = startOfPeriod(date, 'month', boundary);
+  return { start: layout === 'year' ? addPeriods(start, 'month', -11) : start, end };
+};
+
+/**
+ * Lay out one cell per day of `range`, shaded by how much of the goal was
+ * reached. Uses the same daily buckets as the bar chart, so both agree on
+ * where a day starts and which zone an entry counts in.
+ */
+export const buildHeatmap = (
+  entries: WaterLogEntry[],
+  layout: HeatmapLayout,
+  range: DateRange,
+  options: ChartDataOptions = {},
+  now: Date = new Date()
+): HeatmapData => {
+  const boundary: DayBoundary = {
+    dayStartHour: options.dayStartHour ?? 0,
+    weekStartDay: options.weekStartDay ?? 0,
+  };
+  const daily = groupEntriesByPeriod(
+    toViewEntries(entries, options.zoneView),
+    range,
+    'day',
+    options.beverages ?? DEFAULT_BEVERAGE_PROFILES,
+    boundary
+  );
+
+  const firstWeek = startOfWeek(range.start, boundary);
+  const cells = (daily.bucketStarts ?? []).map((start, i) => {
+    const dayIndex = countDays({ start: firstWeek, end: new Date(start.getTime() - 1) });
+    const week = Math.floor(dayIndex / 7);
+    const weekday = dayIndex % 7;
+    return {
+      day: toLogicalDay(start, boundary.dayStartHour),
+      row: layout === 'month' ? week : weekday,
+      column: layout === 'month' ? weekday : week,
+      goalRatio: start > now ? null : daily.effectiveData[i] / (options.dailyGoalMl || 1),
+      fatigue: daily.fatigueData[i] || null,
+    };
+  });
+
+  const weeks = cells.length ? Math.max(...cells.map(cell => (layout === 'month' ? cell.row : cell.column))) + 1 : 0;
+  const weekdayLabels = WEEKDAY_INITIALS.map((_, i) => WEEKDAY_INITIALS[(i + boundary.weekStartDay) % 7]);
+  const columnLabels: (string | null)[] = layout === 'year' ? Array(weeks).fill(null) : [];
+  if (layout === 'year') {
+    for (const cell of cells) {
+      if (cell.day.getDate() === 1) columnLabels[cell.column] = MONTH_NAMES[cell.day.getMonth()];
+    }
+  }
+
+  return {
+    layout,
+    rows: layout === 'month' ? weeks : 7,
+    columns: layout === 'month' ? 7 : weeks,
+    cells,
+    weekdayLabels,
+    columnLabels,
+  };
+};
@@ -0,0 +1,5 @@
+// Run every test in a zone with daylight saving time so date handling is
+// exercised across DST transitions regardless of the machine's zone
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};
@@ -0,0 +1,23 @@
+// Copies the installed Chart.js build into a module the native chart can
+// inline into its WebView, so charts draw without network access. The output
+// is checked in, so builds never depend on this having run; run it with
+// `npm run bundle-chart-runtime` after upgrading chart.js and commit the result.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const packageDir = join(root, 'node_modules', 'chart.js');
+const output = join(root, 'components', 'chart', 'chartRuntime.generated.ts');
+
+const { version } = JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf8'));
+// Closing script tags inside the source would end the inline <script> early
+const source = readFileSync(join(packageDir, 'dist', 'chart.umd.js'), 'utf8').replace(/<\/script/gi, '<\\/script');
+
+writeFileSync(
+  output,
+  `// Generated by scripts/bundle-chart-runtime.mjs from chart.js@${version}. Do not edit.\n` +
+    `export const CHART_JS_VERSION = ${JSON.stringify(version)};\n` +
+    `export const CHART_JS_SOURCE = ${JSON.stringify(source)};\n`
+);
+console.log(`Bundled chart.js@${version} for the native chart`);
@@ -0,0 +1,53 @@
+import { Timestamp } from 'firebase/firestore';
+import { createExport, DataImportError, EXPORT_VERSION, parseExport } from '../dataTransfer';
+import { DEFAULT_SETTINGS } from '../settingsStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../firebase', () => ({ auth: { currentUser: null }, db: {}, MOCK_USER_ID: 'mock-user' }));
+
+const entries = [
+  { id: 'a', userId: 'u', amountMl: 250, fatigue: 2, timestamp: new Timestamp(1700000000, 0), tzOffsetMinutes: 60 },
+];
+
+describe('data import', () => {
+  it('reads back what was exported', () => {
+    const imported = parseExport(createExport(entries, DEFAULT_SETTINGS));
+
+    expect(imported.settings).toEqual(DEFAULT_SETTINGS);
+    expect(imported.entries).toHaveLength(1);
+    expect(imported.entries[0]).toMatchObject({ id: 'a', amountMl: 250, tzOffsetMinutes: 60 });
+    expect(imported.entries[0].timestamp).toBeInstanceOf(Timestamp);
+  });
+
+  it.each([
+    ['text that is not JSON', 'not json {'],
+    ['an empty document', 'null'],
+    ['JSON from something else', '{"entries":[]}'],
+  ])('rejects %s', (_name, raw) => {
+    expect(() => parseExport(raw)).toThrow(new DataImportError('That does not look like a WaterLogger export.'));
+  });
+
+  it('rejects exports from a newer version or without one', () => {
+    const file = JSON.parse(createExport(entries, DEFAULT_SETTINGS));
+
+    expect(() => parseExport(JSON.stringify({ ...file, version: EXPORT_VERSION + 1 })))
+      .toThrow('This export was made by a newer version of the app.');
+    expect(() => parseExport(JSON.stringify({ ...file, version: undefined }))).toThrow(DataImportError);
+  });
+
+  it('reports unreadable entries as an import error', () => {
+    const file = JSON.parse(createExport(entries, DEFAULT_SETTINGS));
+
+    expect(() => parseExport(JSON.stringify({ ...file, entries: 'oops' }))).toThrow(DataImportError);
+  });
+
+  it('imports entries without settings', () => {
+    const file = JSON.parse(createExport(entries, DEFAULT_SETTINGS));
+    delete file.settings;
+
+    expect(parseExport(JSON.stringify(file)).settings).toBeNull();
+  });
+});
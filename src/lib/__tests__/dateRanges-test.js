@@ -0,0 +1,121 @@
+import {
+  clampWindowDate,
+  endOfDay,
+  getPresetRange,
+  getPreviousRange,
+  startOfDay,
+  startOfWeek,
+  toLogicalDay,
+} from '../dateRanges';
+
+const nightOwl = { dayStartHour: 4, weekStartDay: 1 };
+
+describe('day boundaries', () => {
+  it('counts hours before the day start towards the previous day', () => {
+    expect(toLogicalDay(new Date(2024, 4, 8, 1, 30), 4)).toEqual(new Date(2024, 4, 7));
+    expect(toLogicalDay(new Date(2024, 4, 8, 4, 0), 4)).toEqual(new Date(2024, 4, 8));
+  });
+
+  it('runs a day from the start hour to just before it the next morning', () => {
+    const lateNight = new Date(2024, 4, 8, 1, 30);
+
+    expect(startOfDay(lateNight, 4)).toEqual(new Date(2024, 4, 7, 4));
+    expect(endOfDay(lateNight, 4)).toEqual(new Date(2024, 4, 8, 3, 59, 59, 999));
+  });
+
+  it('starts weeks on the chosen weekday', () => {
+    // Sunday 2024-05-12 at 2am still belongs to Saturday, in the week from Monday the 6th
+    expect(startOfWeek(new Date(2024, 4, 12, 2), nightOwl)).toEqual(new Date(2024, 4, 6, 4));
+    expect(startOfWeek(new Date(2024, 4, 12, 2))).toEqual(new Date(2024, 4, 12));
+  });
+});
+
+describe('getPresetRange', () => {
+  const wednesday = new Date(2024, 4, 8, 12);
+
+  it('aligns week windows to the start of the week', () => {
+    const { start, end } = getPresetRange('week', wednesday, nightOwl);
+
+    expect(start).toEqual(new Date(2024, 4, 6, 4));
+    expect(end).toEqual(new Date(2024, 4, 13, 3, 59, 59, 999));
+  });
+
+  it('reaches back a whole extra week for two weeks', () => {
+    expect(getPresetRange('twoweeks', wednesday, nightOwl).start).toEqual(new Date(2024, 3, 29, 4));
+  });
+
+  it('ends the month window on the current day', () => {
+    const { start, end } = getPresetRange('month', wednesday, nightOwl);
+
+    expect(start).toEqual(new Date(2024, 3, 9, 4));
+    expect(end).toEqual(new Date(2024, 4, 9, 3, 59, 59, 999));
+  });
+
+  it('covers thirteen whole weeks for a quarter', () => {
+    const { start, end } = getPresetRange('quarter', wednesday, nightOwl);
+
+    expect(start).toEqual(new Date(2024, 1, 12, 4));
+    expect(end).toEqual(new Date(2024, 4, 13, 3, 59, 59, 999));
+  });
+
+  it('covers twelve calendar months for a year', () => {
+    const { start, end } = getPresetRange('year', wednesday);
+
+    expect(start).toEqual(new Date(2023, 5, 1));
+    expect(end).toEqual(new Date(2024, 4, 31, 23, 59, 59, 999));
+  });
+
+  it('starts all-time windows at the period holding the first entry', () => {
+    // A little over a year of data is drawn in months
+    expect(getPresetRange('all', wednesday, undefined, new Date(2023, 2, 15)).start).toEqual(new Date(2023, 2, 1));
+    // Ten days of data is drawn in days
+    expect(getPresetRange('all', wednesday, undefined, new Date(2024, 3, 28, 9)).start).toEqual(new Date(2024, 3, 28));
+  });
+});
+
+describe('getPreviousRange', () => {
+  const wednesday = new Date(2024, 4, 8, 12);
+
+  it('steps back one whole window of the same span', () => {
+    const week = getPresetRange('week', wednesday, nightOwl);
+
+    expect(getPreviousRange('week', week, nightOwl)).toEqual({
+      start: new Date(2024, 3, 29, 4),
+      end: new Date(2024, 4, 6, 3, 59, 59, 999),
+    });
+  });
+
+  it('steps back twelve months from a year', () => {
+    const year = getPresetRange('year', wednesday);
+
+    expect(getPreviousRange('year', year).start).toEqual(new Date(2022, 5, 1));
+  });
+
+  it('gives all-time windows a predecessor of equal length', () => {
+    const all = { start: new Date(2024, 4, 1), end: new Date(2024, 4, 10, 23, 59, 59, 999) };
+
+    expect(getPreviousRange('all', all)).toEqual({
+      start: new Date(2024, 3, 21),
+      end: new Date(2024, 3, 30, 23, 59, 59, 999),
+    });
+  });
+});
+
+describe('clampWindowDate', () => {
+  const now = new Date(2024, 4, 8, 12);
+  const earliest = new Date(2024, 3, 20, 9);
+
+  it('stops at today', () => {
+    expect(clampWindowDate('week', new Date(2024, 4, 12), undefined, earliest, now)).toEqual(now);
+  });
+
+  it('stops at the window starting on the first day with data', () => {
+    expect(clampWindowDate('week', new Date(2024, 3, 1), undefined, earliest, now))
+      .toEqual(new Date(2024, 3, 26, 23, 59, 59, 999));
+    expect(clampWindowDate('day', new Date(2024, 3, 25), undefined, earliest, now)).toEqual(new Date(2024, 3, 25));
+  });
+
+  it('stays on today without any data', () => {
+    expect(clampWindowDate('week', new Date(2024, 4, 1), undefined, null, now)).toEqual(now);
+  });
+});
@@ -0,0 +1,65 @@
+import { Timestamp } from 'firebase/firestore';
+import { EntryValidationError, validateEntryTimestamp } from '../entryValidation';
+import { useLogStore } from '../logStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../firebase', () => ({ auth: { currentUser: null }, db: {}, MOCK_USER_ID: 'mock-user' }));
+
+const now = new Date(2024, 4, 8, 12);
+const at = (date) => Timestamp.fromDate(date);
+const daysBefore = (days) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('validateEntryTimestamp', () => {
+  it('accepts now, a moment of clock skew and the last day of the horizon', () => {
+    expect(() => validateEntryTimestamp(at(now), 90, now)).not.toThrow();
+    expect(() => validateEntryTimestamp(at(new Date(now.getTime() + 30 * 1000)), 90, now)).not.toThrow();
+    expect(() => validateEntryTimestamp(at(daysBefore(89)), 90, now)).not.toThrow();
+  });
+
+  it('rejects times in the future', () => {
+    expect(() => validateEntryTimestamp(at(new Date(now.getTime() + 5 * 60 * 1000)), 90, now))
+      .toThrow(new EntryValidationError('Entries cannot be logged in the future'));
+  });
+
+  it('rejects times past the backfill horizon', () => {
+    expect(() => validateEntryTimestamp(at(daysBefore(91)), 90, now))
+      .toThrow('Entries can only be backfilled up to 90 days');
+    expect(() => validateEntryTimestamp(at(daysBefore(10)), 7, now)).toThrow(EntryValidationError);
+  });
+});
+
+describe('log store timestamp checks', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    // The store logs every rejection
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    useLogStore.setState({ entries: [], error: null, backfillHorizonDays: 90 });
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('rejects adding an entry outside the horizon and reports why', async () => {
+    await expect(useLogStore.getState().addEntry({ amountMl: 250, fatigue: 2, timestamp: daysBefore(120) }))
+      .rejects.toThrow(EntryValidationError);
+
+    expect(useLogStore.getState().error).toBe('Entries can only be backfilled up to 90 days');
+    expect(useLogStore.getState().entries).toEqual([]);
+  });
+
+  it('applies the same rules when an entry is moved', async () => {
+    const id = await useLogStore.getState().addEntry({ amountMl: 250, fatigue: 2, timestamp: daysBefore(1) });
+    const { updateEntry } = useLogStore.getState();
+
+    await expect(updateEntry(id, { timestamp: new Date(now.getTime() + 60 * 60 * 1000) }))
+      .rejects.toThrow('Entries cannot be logged in the future');
+    await expect(updateEntry(id, { timestamp: daysBefore(91) })).rejects.toThrow(EntryValidationError);
+    // Changes that leave the time alone are not checked
+    await expect(updateEntry(id, { amountMl: 300 })).resolves.toBeUndefined();
+  });
+});
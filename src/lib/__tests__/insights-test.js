@@ -0,0 +1,78 @@
+import { computeInsights, getConfidence, pearsonCorrelation } from '../insights';
+
+// One day of entries: `morningMl` at 9am, `afternoonMl` at 3pm, the afternoon
+// entry carrying the fatigue rating
+const day = (date, morningMl, afternoonMl, fatigue) => [
+  { amountMl: morningMl, fatigue, timestamp: new Date(2024, 0, date, 9) },
+  { amountMl: afternoonMl, fatigue, timestamp: new Date(2024, 0, date, 15) },
+];
+
+const byInsight = insights => Object.fromEntries(insights.map(insight => [insight.id, insight]));
+
+describe('pearsonCorrelation', () => {
+  it('is 1 or -1 for perfectly related series', () => {
+    expect(pearsonCorrelation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(pearsonCorrelation([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1);
+  });
+
+  it('has no answer for tiny or flat series', () => {
+    expect(pearsonCorrelation([1, 2], [1, 2])).toBeNull();
+    expect(pearsonCorrelation([1, 2, 3], [4, 4, 4])).toBeNull();
+  });
+});
+
+describe('computeInsights', () => {
+  it('asks for more data on a short history', () => {
+    const insights = byInsight(computeInsights([...day(1, 500, 500, 3), ...day(2, 800, 400, 2)], { dailyGoalMl: 1000 }));
+
+    expect(insights['intake-fatigue'].confidence).toBe('insufficient');
+    expect(insights['intake-fatigue'].summary).toMatch(/^Not enough data yet/);
+    expect(insights['goal-fatigue'].confidence).toBe('insufficient');
+  });
+
+  it('describes lower fatigue on days with more water, hedged by sample size', () => {
+    const entries = [1, 2, 3, 4, 5, 6, 7, 8].flatMap(date =>
+      date % 2 ? day(date, 1000, 500, 2) : day(date, 200, 300, 4)
+    );
+
+    const insights = byInsight(computeInsights(entries, { dailyGoalMl: 1200 }));
+
+    expect(insights['intake-fatigue'].summary).toBe(
+      'Early hint from only 8 days: drinking more in a day goes with strongly lower fatigue that day.'
+    );
+    expect(insights['morning-afternoon'].summary).toMatch(/before noon goes with strongly lower fatigue/);
+    expect(insights['goal-fatigue'].summary).toMatch(
+      /averaged 2\.0 on the 4 days you met your goal and 4\.0 on the 4 days you didn't\. You tend to feel less tired/
+    );
+  });
+
+  it('hedges the goal comparison by the smaller of its two groups', () => {
+    const dates = Array.from({ length: 60 }, (_, i) => i + 1);
+    const mostlyMet = dates.flatMap(date => date <= 3 ? day(date, 200, 300, 4) : day(date, 1000, 500, 2));
+    const mostlyMissed = dates.slice(0, 20).flatMap(date => date <= 4 ? day(date, 1000, 500, 2) : day(date, 200, 300, 4));
+
+    expect(byInsight(computeInsights(mostlyMet, { dailyGoalMl: 1200 }))['goal-fatigue'].summary).toMatch(
+      /^Early hint from only 3 days below your goal: fatigue averaged 2\.0 on the 57 days you met your goal/
+    );
+    expect(byInsight(computeInsights(mostlyMissed, { dailyGoalMl: 1200 }))['goal-fatigue'].summary).toMatch(
+      /^Early hint from only 4 days at your goal: /
+    );
+  });
+
+  it('counts late-night entries towards the day they belong to', () => {
+    const entries = [
+      ...day(1, 500, 500, 3),
+      { amountMl: 500, fatigue: 3, timestamp: new Date(2024, 0, 2, 1) },
+    ];
+
+    const insights = computeInsights(entries, { dailyGoalMl: 1000, dayStartHour: 4 });
+
+    expect(insights[0].sampleSize).toBe(1);
+  });
+});
+
+describe('getConfidence', () => {
+  it('grows with the number of days', () => {
+    expect([4, 5, 14, 30].map(getConfidence)).toEqual(['insufficient', 'low', 'medium', 'high']);
+  });
+});
@@ -0,0 +1,36 @@
+import { getNextReminder, getReminderTimes } from '../reminders';
+
+const schedule = { enabled: true, startHour: 9, endHour: 21, intervalMinutes: 120 };
+const at = (day, hour, minute = 0) => new Date(2024, 4, day, hour, minute);
+
+describe('reminders', () => {
+  it('steps from the start hour up to and including the end hour', () => {
+    const times = getReminderTimes(schedule, at(8, 0));
+
+    expect(times[0]).toEqual(at(8, 9));
+    expect(times[times.length - 1]).toEqual(at(8, 21));
+    expect(times).toHaveLength(7);
+  });
+
+  it('gives the next reminder later today', () => {
+    expect(getNextReminder(schedule, at(8, 10, 30))).toEqual(at(8, 11));
+    // Strictly after now
+    expect(getNextReminder(schedule, at(8, 11))).toEqual(at(8, 13));
+  });
+
+  it('rolls over midnight to the first reminder tomorrow', () => {
+    expect(getNextReminder(schedule, at(8, 21, 1))).toEqual(at(9, 9));
+    expect(getNextReminder(schedule, at(8, 23, 59))).toEqual(at(9, 9));
+  });
+
+  it('follows the calendar day, not the logging day start', () => {
+    // At 1 AM with a 4 AM day start the logging day is still yesterday,
+    // but reminders are wall-clock times on today's date
+    expect(getNextReminder(schedule, at(9, 1))).toEqual(at(9, 9));
+  });
+
+  it('gives nothing when reminders are off or have no interval', () => {
+    expect(getNextReminder({ ...schedule, enabled: false }, at(8, 10))).toBeNull();
+    expect(getNextReminder({ ...schedule, intervalMinutes: 0 }, at(8, 10))).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import { DEFAULT_SETTINGS, withDefaultSettings } from '../settingsStore';
+import { ML_PER_CUP } from '../units';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../firebase', () => ({ auth: { currentUser: null }, db: {}, MOCK_USER_ID: 'mock-user' }));
+
+describe('withDefaultSettings', () => {
+  it('uses the defaults when nothing was saved', () => {
+    expect(withDefaultSettings(null)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('converts a goal saved in cups, unless one in ml was saved too', () => {
+    expect(withDefaultSettings({ dailyGoalCups: 8 }).dailyGoalMl).toBeCloseTo(8 * ML_PER_CUP);
+    expect(withDefaultSettings({ dailyGoalCups: 8, dailyGoalMl: 1500 }).dailyGoalMl).toBe(1500);
+    expect(withDefaultSettings({ dailyGoalCups: 8 })).not.toHaveProperty('dailyGoalCups');
+  });
+
+  it('fills in missing reminder fields and beverages one by one', () => {
+    const settings = withDefaultSettings({
+      reminders: { enabled: true },
+      beverages: { coffee: { hydrationFactor: 0.5 } },
+    });
+
+    expect(settings.reminders).toEqual({ ...DEFAULT_SETTINGS.reminders, enabled: true });
+    expect(settings.beverages.coffee).toEqual({ ...DEFAULT_SETTINGS.beverages.coffee, hydrationFactor: 0.5 });
+    expect(settings.beverages.tea).toEqual(DEFAULT_SETTINGS.beverages.tea);
+  });
+});
@@ -0,0 +1,74 @@
+import { BeverageProfile, BeverageType } from './storage/types';
+
+// Display order used by the entry form, settings and chart stacks
+export const BEVERAGE_TYPES: BeverageType[] = [
+  'water',
+  'tea',
+  'coffee',
+  'juice',
+  'milk',
+  'electrolyte',
+  'alcohol',
+  'custom',
+];
+
+export const BEVERAGE_LABELS: Record<BeverageType, string> = {
+  water: 'Water',
+  tea: 'Tea',
+  coffee: 'Coffee',
+  juice: 'Juice',
+  milk: 'Milk',
+  electrolyte: 'Electrolyte',
+  alcohol: 'Alcohol',
+  custom: 'Other',
+};
+
+// Bar colours when the chart is stacked by beverage
+export const BEVERAGE_COLORS: Record<BeverageType, string> = {
+  water: 'rgba(53, 162, 235, 0.7)',
+  tea: 'rgba(132, 204, 22, 0.7)',
+  coffee: 'rgba(146, 64, 14, 0.7)',
+  juice: 'rgba(249, 115, 22, 0.7)',
+  milk: 'rgba(203, 213, 225, 0.9)',
+  electrolyte: 'rgba(20, 184, 166, 0.7)',
+  alcohol: 'rgba(168, 85, 247, 0.7)',
+  custom: 'rgba(107, 114, 128, 0.7)',
+};
+
+// Starting points the user can adjust in Settings. Factors are rough
+// averages: caffeine and alcohol are mildly diuretic, electrolytes are
+// retained a little better than plain water.
+export const DEFAULT_BEVERAGE_PROFILES: Record<BeverageType, BeverageProfile> = {
+  water: { hydrationFactor: 1, caffeineMgPer100Ml: 0 },
+  tea: { hydrationFactor: 0.9, caffeineMgPer100Ml: 20 },
+  coffee: { hydrationFactor: 0.8, caffeineMgPer100Ml: 40 },
+  juice: { hydrationFactor: 0.9, caffeineMgPer100Ml: 0 },
+  milk: { hydrationFactor: 1, caffeineMgPer100Ml: 0 },
+  electrolyte: { hydrationFactor: 1.1, caffeineMgPer100Ml: 0 },
+  alcohol: { hydrationFactor: 0.4, caffeineMgPer100Ml: 0 },
+  custom: { hydrationFactor: 1, caffeineMgPer100Ml: 0, name: 'Other' },
+};
+
+// Minimal entry shape needed here, shared by stored and chart entries
+interface BeverageEntry {
+  amountMl: number;
+  beverage?: BeverageType;
+}
+
+export const getBeverage = (entry: BeverageEntry): BeverageType => entry.beverage ?? 'water';
+
+export const getBeverageLabel = (
+  beverage: BeverageType,
+  profiles: Record<BeverageType, BeverageProfile> = DEFAULT_BEVERAGE_PROFILES
+): string => (beverage === 'custom' && profiles.custom.name) || BEVERAGE_LABELS[beverage];
+
+// Volume that counts towards hydration after the beverage's factor
+export const getEffectiveMl = (
+  entry: BeverageEntry,
+  profiles: Record<BeverageType, BeverageProfile> = DEFAULT_BEVERAGE_PROFILES
+): number => entry.amountMl * profiles[getBeverage(entry)].hydrationFactor;
+
+export const getCaffeineMg = (
+  entry: BeverageEntry,
+  profiles: Record<BeverageType, BeverageProfile> = DEFAULT_BEVERAGE_PROFILES
+): number => (entry.amountMl / 100) * profiles[getBeverage(entry)].caffeineMgPer100Ml;
@@ -0,0 +1,85 @@
+import { Platform, Share } from 'react-native';
+import { SerializedDocument, fromSerializedDocument, toSerializedDocument } from './storage/serialization';
+import { UserSettings, WaterLogEntry } from './storage';
+
+// Identifies files produced by `createExport`
+const EXPORT_FORMAT = 'waterlogger-export';
+
+// Bump when the export layout changes; entry shapes are versioned separately
+export const EXPORT_VERSION = 1;
+
+interface ExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: UserSettings;
+  entries: SerializedDocument;
+}
+
+export interface ImportedData {
+  entries: WaterLogEntry[];
+  settings: Partial<UserSettings> | null;
+}
+
+// Raised when pasted or uploaded data is not a usable export
+export class DataImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataImportError';
+  }
+}
+
+export const createExport = (
+  entries: WaterLogEntry[],
+  settings: UserSettings,
+  now: Date = new Date()
+): string => {
+  const file: ExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    settings,
+    entries: toSerializedDocument(entries),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseExport = (raw: string): ImportedData => {
+  let parsed: Partial<ExportFile>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new DataImportError('That does not look like a WaterLogger export.');
+  }
+
+  if (!parsed || parsed.format !== EXPORT_FORMAT) {
+    throw new DataImportError('That does not look like a WaterLogger export.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+    throw new DataImportError('This export was made by a newer version of the app.');
+  }
+
+  try {
+    return {
+      entries: fromSerializedDocument(parsed.entries),
+      settings: parsed.settings ?? null,
+    };
+  } catch (err) {
+    throw new DataImportError(err instanceof Error ? err.message : 'The export could not be read.');
+  }
+};
+
+// Hand an export to the user: a file download on web, the share sheet on native
+export const shareExport = async (contents: string, fileName: string) => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  await Share.share({ title: fileName, message: contents });
+};
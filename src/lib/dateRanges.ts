@@ -0,0 +1,216 @@
+import { DateRange, UserSettings, ZoneView } from './storage';
+import { SpanUnit, TIME_SPANS, TimeSpan, getBucketSize } from './timeSpans';
+
+// Where the user's days and weeks begin. Days start at `dayStartHour` local
+// time, so a drink at 1am with a 4am day start counts towards the day before.
+export type DayBoundary = Pick<UserSettings, 'dayStartHour' | 'weekStartDay'>;
+
+export const DEFAULT_DAY_BOUNDARY: DayBoundary = { dayStartHour: 0, weekStartDay: 0 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar day `date` counts towards, as local midnight of that day. Before
+ * `dayStartHour` this is the previous calendar day.
+ */
+export const toLogicalDay = (date: Date, dayStartHour = 0) => {
+  const day = new Date(date);
+  if (day.getHours() < dayStartHour) {
+    day.setDate(day.getDate() - 1);
+  }
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Start of the day containing `date`
+export const startOfDay = (date: Date, dayStartHour = 0) => {
+  const start = toLogicalDay(date, dayStartHour);
+  start.setHours(dayStartHour);
+  return start;
+};
+
+// Last millisecond of the day containing `date`
+export const endOfDay = (date: Date, dayStartHour = 0) => {
+  const next = startOfDay(date, dayStartHour);
+  next.setDate(next.getDate() + 1);
+  return new Date(next.getTime() - 1);
+};
+
+// Start of the week containing `date`
+export const startOfWeek = (date: Date, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY) => {
+  const start = startOfDay(date, boundary.dayStartHour);
+  const daysIntoWeek = (toLogicalDay(date, boundary.dayStartHour).getDay() - boundary.weekStartDay + 7) % 7;
+  start.setDate(start.getDate() - daysIntoWeek);
+  return start;
+};
+
+// Start of the calendar month containing `date`
+export const startOfMonth = (date: Date, dayStartHour = 0) => {
+  const start = toLogicalDay(date, dayStartHour);
+  start.setDate(1);
+  start.setHours(dayStartHour);
+  return start;
+};
+
+// Start of the day, week or month containing `date`
+export const startOfPeriod = (date: Date, unit: SpanUnit, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY) => {
+  switch (unit) {
+    case 'week': return startOfWeek(date, boundary);
+    case 'month': return startOfMonth(date, boundary.dayStartHour);
+    default: return startOfDay(date, boundary.dayStartHour);
+  }
+};
+
+// Move a period start by whole periods, keeping the time of day
+export const addPeriods = (date: Date, unit: SpanUnit, count: number) => {
+  const moved = new Date(date);
+  if (unit === 'month') {
+    moved.setMonth(moved.getMonth() + count);
+  } else {
+    moved.setDate(moved.getDate() + count * (unit === 'week' ? 7 : 1));
+  }
+  return moved;
+};
+
+// Last millisecond of the day, week or month containing `date`
+export const endOfPeriod = (date: Date, unit: SpanUnit, boundary: DayBoundary = DEFAULT_DAY_BOUNDARY) =>
+  new Date(addPeriods(startOfPeriod(date, unit, boundary), unit, 1).getTime() - 1);
+
+// Number of whole days in a range snapped to day boundaries. Rounded, as days
+// around DST changes are 23 or 25 hours long.
+export const countDays = (range: DateRange) =>
+  Math.round((range.end.getTime() + 1 - range.start.getTime()) / DAY_MS);
+
+// Local calendar day as YYYY-MM-DD, used for grouping and deep links
+export const toDayKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// UTC offset of the device's zone at `date`, in minutes east of UTC
+export const getTzOffsetMinutes = (date: Date) => -date.getTimezoneOffset();
+
+/**
+ * A Date whose *local* fields read as the wall-clock time of `date` in a zone
+ * `tzOffsetMinutes` east of UTC, so day keys, hours and labels computed the
+ * usual way describe that zone instead of the device's.
+ */
+export const toZoneWallClock = (date: Date, tzOffsetMinutes: number) => {
+  const shifted = new Date(date.getTime() + tzOffsetMinutes * 60 * 1000);
+  return new Date(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth(),
+    shifted.getUTCDate(),
+    shifted.getUTCHours(),
+    shifted.getUTCMinutes(),
+    shifted.getUTCSeconds(),
+    shifted.getUTCMilliseconds()
+  );
+};
+
+// Short zone label such as "UTC+2" or "UTC-3:30"
+export const formatTzOffset = (tzOffsetMinutes: number) => {
+  const sign = tzOffsetMinutes < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(tzOffsetMinutes) / 60);
+  const minutes = Math.abs(tzOffsetMinutes) % 60;
+  return `UTC${sign}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+};
+
+// Date to bucket and label an entry by. Entries without a recorded zone are
+// always shown in the current zone.
+export const toViewDate = (date: Date, tzOffsetMinutes: number | undefined, zoneView: ZoneView) =>
+  zoneView === 'logged' && tzOffsetMinutes !== undefined ? toZoneWallClock(date, tzOffsetMinutes) : date;
+
+// Parse a YYYY-MM-DD day key back into local midnight
+export const fromDayKey = (key: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+/**
+ * Range of `timespan` ending with the day containing `end`, reaching back
+ * the span's length in days, weeks or months. The all-time span starts on
+ * the day of `earliest` instead.
+ */
+export const getRangeEndingAt = (
+  timespan: TimeSpan,
+  end: Date,
+  boundary: DayBoundary = DEFAULT_DAY_BOUNDARY,
+  earliest: Date | null = null
+): DateRange => {
+  const { unit, length } = TIME_SPANS[timespan];
+  const rangeEnd = endOfDay(end, boundary.dayStartHour);
+
+  if (length === null) {
+    const first = earliest && earliest < rangeEnd ? earliest : end;
+    return { start: startOfDay(first, boundary.dayStartHour), end: rangeEnd };
+  }
+
+  const start = addPeriods(new Date(rangeEnd.getTime() + 1), unit, -length);
+  return { start, end: rangeEnd };
+};
+
+/**
+ * Range covered by the preset window containing `now`: whole days, weeks or
+ * months as defined in `TIME_SPANS`, so week windows may reach past today.
+ * The all-time window runs in periods as large as the chart buckets it will
+ * be drawn with. Both ends are snapped to period boundaries so the range (and
+ * any query key built from it) stays stable for the rest of the day.
+ */
+export const getPresetRange = (
+  timespan: TimeSpan,
+  now: Date = new Date(),
+  boundary: DayBoundary = DEFAULT_DAY_BOUNDARY,
+  earliest: Date | null = null
+): DateRange => {
+  const { unit, length } = TIME_SPANS[timespan];
+
+  if (length === null) {
+    const first = earliest && earliest < now ? earliest : now;
+    const bucket = getBucketSize(countDays(getRangeEndingAt(timespan, now, boundary, first)));
+    const allUnit: SpanUnit = bucket === 'hour' ? 'day' : bucket;
+    return { start: startOfPeriod(first, allUnit, boundary), end: endOfPeriod(now, allUnit, boundary) };
+  }
+
+  return getRangeEndingAt(timespan, endOfPeriod(now, unit, boundary), boundary);
+};
+
+/**
+ * Window just before `range`, for period-over-period comparison: the same
+ * span ending on the day before `range` starts. All-time windows have no
+ * natural predecessor, so they get one of equal length.
+ */
+export const getPreviousRange = (
+  timespan: TimeSpan,
+  range: DateRange,
+  boundary: DayBoundary = DEFAULT_DAY_BOUNDARY
+): DateRange => {
+  const dayBefore = new Date(range.start.getTime() - 1);
+  if (TIME_SPANS[timespan].length === null) {
+    const length = range.end.getTime() + 1 - range.start.getTime();
+    return { start: new Date(range.start.getTime() - length), end: dayBefore };
+  }
+  return getRangeEndingAt(timespan, dayBefore, boundary);
+};
+
+/**
+ * Keep the reference date of a panned window between today and the window
+ * that starts on the day of `earliest`, the same limits the arrows have.
+ * Without any data there is nowhere to pan back to.
+ */
+export const clampWindowDate = (
+  timespan: TimeSpan,
+  date: Date,
+  boundary: DayBoundary = DEFAULT_DAY_BOUNDARY,
+  earliest: Date | null = null,
+  now: Date = new Date()
+): Date => {
+  const { unit, length } = TIME_SPANS[timespan];
+  if (date > now || !earliest || length === null) return now;
+
+  const firstEnd = new Date(addPeriods(startOfDay(earliest, boundary.dayStartHour), unit, length).getTime() - 1);
+  const min = firstEnd < now ? firstEnd : now;
+  return date < min ? min : date;
+};
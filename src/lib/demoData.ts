@@ -0,0 +1,58 @@
+import { BeverageType } from './storage/types';
+
+// Entry shape used by the chart when showing generated demo data
+export interface DemoEntry {
+  amountMl: number;
+  beverage: BeverageType;
+  fatigue: number;
+  timestamp: Date;
+}
+
+// Mostly water, with coffee in the morning and the odd other drink
+const pickDemoBeverage = (hour: number): BeverageType => {
+  const roll = Math.random();
+  if (hour >= 6 && hour < 11 && roll < 0.4) return 'coffee';
+  if (roll < 0.1) return 'tea';
+  if (roll < 0.15) return 'juice';
+  if (hour >= 18 && roll < 0.2) return 'alcohol';
+  return 'water';
+};
+
+// Generate 400 days of hourly data (enough for the year view), random with occasional skipped days
+export function generateFullDemoData(): DemoEntry[] {
+  const totalDays = 400;
+  const data: DemoEntry[] = [];
+
+  const today = new Date();
+  today.setHours(23, 59, 59, 999);
+
+  for (let dayOffset = 0; dayOffset < totalDays; dayOffset++) {
+    const dayDate = new Date(today);
+    dayDate.setDate(today.getDate() - dayOffset);
+    dayDate.setHours(0, 0, 0, 0);
+
+    // 25% chance to skip this day entirely
+    if (Math.random() < 0.25) continue;
+
+    // Random number of entries for the day (2-10)
+    const entriesCount = Math.floor(Math.random() * 9) + 2;
+    for (let i = 0; i < entriesCount; i++) {
+      const hour = Math.floor(Math.random() * 24);
+      const minute = Math.floor(Math.random() * 60);
+      const ts = new Date(dayDate);
+      ts.setHours(hour, minute, 0, 0);
+
+      data.push({
+        amountMl: Math.round(Math.random() * 64 + 7) * 10, // 70–710 ml
+        beverage: pickDemoBeverage(hour),
+        fatigue: Math.floor(Math.random() * 5) + 1, // 1-5
+        timestamp: ts,
+      });
+    }
+  }
+
+  // Sort ascending by timestamp to keep order predictable
+  data.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  console.log(`[DATA] Generated ${data.length} log entries across ~${totalDays} days`);
+  return data;
+}
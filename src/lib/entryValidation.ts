@@ -0,0 +1,41 @@
+import { Timestamp } from 'firebase/firestore';
+
+// How far back entries may be backfilled by default
+export const DEFAULT_BACKFILL_HORIZON_DAYS = 90;
+
+// Tolerate small clock differences between devices when rejecting future times
+const FUTURE_TOLERANCE_MS = 60 * 1000;
+
+// Raised when an entry is rejected before it reaches storage
+export class EntryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EntryValidationError';
+  }
+}
+
+// Accept either a JS Date or a Firestore Timestamp from callers
+export const toTimestamp = (value: Date | Timestamp): Timestamp =>
+  value instanceof Timestamp ? value : Timestamp.fromDate(value);
+
+/**
+ * Check that an entry time is not in the future and not older than the
+ * backfill horizon.
+ */
+export const validateEntryTimestamp = (
+  timestamp: Timestamp,
+  horizonDays: number = DEFAULT_BACKFILL_HORIZON_DAYS,
+  now: Date = new Date()
+) => {
+  const time = timestamp.toMillis();
+
+  if (time > now.getTime() + FUTURE_TOLERANCE_MS) {
+    throw new EntryValidationError('Entries cannot be logged in the future');
+  }
+
+  const earliest = new Date(now);
+  earliest.setDate(earliest.getDate() - horizonDays);
+  if (time < earliest.getTime()) {
+    throw new EntryValidationError(`Entries can only be backfilled up to ${horizonDays} days`);
+  }
+};
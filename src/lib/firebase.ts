@@ -1,15 +1,13 @@
-import { initializeApp, getApp, getApps } from 'firebase/app';
+import { initializeApp, getApp, getApps, FirebaseApp } from 'firebase/app';
 import { 
   getAuth, 
   signInAnonymously, 
   onAuthStateChanged, 
+  Auth,
   User 
 } from 'firebase/auth';
-import { getFirestore, enableIndexedDbPersistence } from 'firebase/firestore';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Check if we're in development mode
-const isDevelopment = process.env.NODE_ENV === 'development' || !process.env.NODE_ENV;
+import { getFirestore, enableIndexedDbPersistence, Firestore } from 'firebase/firestore';
+import { resolveStorageBackend, requiresFirebaseAuth } from './storage/config';
 
 // Your Firebase configuration object
 // Replace with your actual Firebase project details when you have them
@@ -23,12 +21,12 @@ const firebaseConfig = {
 };
 
 // Initialize Firebase
-let app;
-let auth;
-let db;
+let app: FirebaseApp;
+let auth: Auth;
+let db: Firestore;
 
-// Flag to track if we're using mock Firebase
-const usingMockFirebase = isDevelopment;
+// Flag to track if we're using mock Firebase (any backend other than Firestore)
+const usingMockFirebase = !requiresFirebaseAuth(resolveStorageBackend());
 
 if (getApps().length === 0) {
   console.log("Initializing Firebase", usingMockFirebase ? "(mock version)" : "");
@@ -0,0 +1,264 @@
+import { BeverageProfile, BeverageType } from './storage/types';
+import { DEFAULT_BEVERAGE_PROFILES, getEffectiveMl } from './beverages';
+import { toDayKey, toLogicalDay } from './dateRanges';
+
+// Minimal entry shape needed here, shared by stored and demo entries
+interface InsightEntry {
+  amountMl: number;
+  beverage?: BeverageType;
+  fatigue: number;
+  timestamp: Date | { toDate: () => Date };
+}
+
+export interface InsightOptions {
+  dailyGoalMl: number;
+  beverages?: Record<BeverageType, BeverageProfile>;
+  dayStartHour?: number;
+}
+
+// How much the data backs an insight, from the number of days behind it
+export type InsightConfidence = 'insufficient' | 'low' | 'medium' | 'high';
+
+export interface Insight {
+  id: 'intake-fatigue' | 'morning-afternoon' | 'goal-fatigue';
+  title: string;
+  // One or two plain-language sentences, hedged to match `confidence`
+  summary: string;
+  confidence: InsightConfidence;
+  // Days the insight is based on
+  sampleSize: number;
+}
+
+// Intake before noon is "morning"; fatigue from noon until 6pm is "afternoon"
+const MORNING_END_HOUR = 12;
+const AFTERNOON_END_HOUR = 18;
+
+// Days needed before saying anything, and for each step up in confidence
+const MIN_DAYS = 5;
+const MEDIUM_CONFIDENCE_DAYS = 14;
+const HIGH_CONFIDENCE_DAYS = 30;
+
+// Goal-met and goal-missed days each need this many days to be compared
+const MIN_GROUP_DAYS = 3;
+
+// Fatigue differences smaller than this (on the 1-5 scale) count as none
+const MIN_FATIGUE_DIFFERENCE = 0.25;
+
+// Everything logged on one day
+interface DaySummary {
+  intakeMl: number;
+  morningIntakeMl: number;
+  fatigueSum: number;
+  fatigueCount: number;
+  afternoonFatigueSum: number;
+  afternoonFatigueCount: number;
+}
+
+const getDate = (entry: InsightEntry) =>
+  entry.timestamp instanceof Date ? entry.timestamp : entry.timestamp.toDate();
+
+const summarizeDays = (
+  entries: InsightEntry[],
+  profiles: Record<BeverageType, BeverageProfile>,
+  dayStartHour: number
+): DaySummary[] => {
+  const days = new Map<string, DaySummary>();
+  for (const entry of entries) {
+    const date = getDate(entry);
+    const key = toDayKey(toLogicalDay(date, dayStartHour));
+    let day = days.get(key);
+    if (!day) {
+      day = {
+        intakeMl: 0,
+        morningIntakeMl: 0,
+        fatigueSum: 0,
+        fatigueCount: 0,
+        afternoonFatigueSum: 0,
+        afternoonFatigueCount: 0,
+      };
+      days.set(key, day);
+    }
+
+    const effectiveMl = getEffectiveMl(entry, profiles);
+    const hour = date.getHours();
+    // Hours before the day start belong to the end of the previous day
+    const isMorning = hour >= dayStartHour && hour < MORNING_END_HOUR;
+    const isAfternoon = hour >= MORNING_END_HOUR && hour < AFTERNOON_END_HOUR;
+
+    day.intakeMl += effectiveMl;
+    day.fatigueSum += entry.fatigue;
+    day.fatigueCount += 1;
+    if (isMorning) day.morningIntakeMl += effectiveMl;
+    if (isAfternoon) {
+      day.afternoonFatigueSum += entry.fatigue;
+      day.afternoonFatigueCount += 1;
+    }
+  }
+  return [...days.values()];
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Pearson correlation of two equally long series, or null when there are
+ * fewer than three pairs or either series never changes.
+ */
+export const pearsonCorrelation = (xs: number[], ys: number[]): number | null => {
+  if (xs.length !== ys.length || xs.length < 3) return null;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+export const getConfidence = (days: number): InsightConfidence => {
+  if (days < MIN_DAYS) return 'insufficient';
+  if (days < MEDIUM_CONFIDENCE_DAYS) return 'low';
+  if (days < HIGH_CONFIDENCE_DAYS) return 'medium';
+  return 'high';
+};
+
+// Opening words that tell the reader how much to trust what follows.
+// `sample` names what the confidence rests on, e.g. "12 days".
+const HEDGES: Record<Exclude<InsightConfidence, 'insufficient'>, (sample: string) => string> = {
+  low: sample => `Early hint from only ${sample}:`,
+  medium: sample => `Based on ${sample},`,
+  high: sample => `Across ${sample},`,
+};
+
+const hedge = (confidence: InsightConfidence, sample: number | string, sentence: string) => {
+  if (confidence === 'insufficient') return sentence;
+  return `${HEDGES[confidence](typeof sample === 'number' ? `${sample} days` : sample)} ${sentence}`;
+};
+
+const notEnoughData = (id: Insight['id'], title: string, days: number, needed: string): Insight => ({
+  id,
+  title,
+  summary: `Not enough data yet. Keep logging ${needed} to see this.`,
+  confidence: 'insufficient',
+  sampleSize: days,
+});
+
+// Plain description of a correlation between more drinking and fatigue
+const describeCorrelation = (r: number, more: string, fatigue: string) => {
+  const size = Math.abs(r);
+  if (size < 0.1) return `${more} makes no clear difference to ${fatigue}.`;
+  const strength = size < 0.3 ? 'slightly' : size < 0.5 ? 'noticeably' : 'strongly';
+  const direction = r < 0 ? 'lower' : 'higher';
+  return `${more} goes with ${strength} ${direction} ${fatigue}.`;
+};
+
+const intakeFatigueInsight = (days: DaySummary[]): Insight => {
+  const title = 'Intake and fatigue';
+  const r = pearsonCorrelation(
+    days.map(day => day.intakeMl),
+    days.map(day => day.fatigueSum / day.fatigueCount)
+  );
+  const confidence = getConfidence(days.length);
+  if (r === null || confidence === 'insufficient') {
+    return notEnoughData('intake-fatigue', title, days.length, `for at least ${MIN_DAYS} days`);
+  }
+  return {
+    id: 'intake-fatigue',
+    title,
+    summary: hedge(confidence, days.length, describeCorrelation(r, 'drinking more in a day', 'fatigue that day')),
+    confidence,
+    sampleSize: days.length,
+  };
+};
+
+const morningAfternoonInsight = (days: DaySummary[]): Insight => {
+  const title = 'Morning water, afternoon energy';
+  const withAfternoon = days.filter(day => day.afternoonFatigueCount > 0);
+  const r = pearsonCorrelation(
+    withAfternoon.map(day => day.morningIntakeMl),
+    withAfternoon.map(day => day.afternoonFatigueSum / day.afternoonFatigueCount)
+  );
+  const confidence = getConfidence(withAfternoon.length);
+  if (r === null || confidence === 'insufficient') {
+    return notEnoughData(
+      'morning-afternoon',
+      title,
+      withAfternoon.length,
+      'fatigue in the afternoon (noon to 6 PM)'
+    );
+  }
+  return {
+    id: 'morning-afternoon',
+    title,
+    summary: hedge(
+      confidence,
+      withAfternoon.length,
+      describeCorrelation(r, 'drinking more before noon', 'fatigue in the afternoon')
+    ),
+    confidence,
+    sampleSize: withAfternoon.length,
+  };
+};
+
+const goalFatigueInsight = (days: DaySummary[], dailyGoalMl: number): Insight => {
+  const title = 'Goal days';
+  const met = days.filter(day => day.intakeMl >= dailyGoalMl);
+  const missed = days.filter(day => day.intakeMl < dailyGoalMl);
+  if (met.length < MIN_GROUP_DAYS || missed.length < MIN_GROUP_DAYS) {
+    return notEnoughData(
+      'goal-fatigue',
+      title,
+      days.length,
+      `until you have ${MIN_GROUP_DAYS} days above and below your goal`
+    );
+  }
+
+  const metFatigue = mean(met.map(day => day.fatigueSum / day.fatigueCount));
+  const missedFatigue = mean(missed.map(day => day.fatigueSum / day.fatigueCount));
+  const difference = metFatigue - missedFatigue;
+  // The smaller group limits how much the comparison can be trusted, so the
+  // hedge names it. With both groups at the minimum size this is already
+  // past `MIN_DAYS`.
+  const confidence = getConfidence(Math.min(met.length, missed.length) * 2);
+  const limitingGroup = missed.length <= met.length
+    ? `${missed.length} days below your goal`
+    : `${met.length} days at your goal`;
+
+  const averages = `fatigue averaged ${metFatigue.toFixed(1)} on the ${met.length} days you met your goal and ${missedFatigue.toFixed(1)} on the ${missed.length} days you didn't.`;
+  const verdict = Math.abs(difference) < MIN_FATIGUE_DIFFERENCE
+    ? 'That is about the same.'
+    : difference < 0
+      ? 'You tend to feel less tired when you reach your goal.'
+      : 'You tend to feel more tired on days you reach your goal.';
+
+  return {
+    id: 'goal-fatigue',
+    title,
+    summary: `${hedge(confidence, limitingGroup, averages)} ${verdict}`,
+    confidence,
+    sampleSize: days.length,
+  };
+};
+
+/**
+ * Relate logged intake to logged fatigue, one summary per day. Intake is
+ * effective hydration, as used for the daily goal. Correlation does not
+ * imply cause, so wording stays descriptive and is hedged by sample size.
+ */
+export const computeInsights = (entries: InsightEntry[], options: InsightOptions): Insight[] => {
+  const days = summarizeDays(
+    entries,
+    options.beverages ?? DEFAULT_BEVERAGE_PROFILES,
+    options.dayStartHour ?? 0
+  );
+
+  return [
+    intakeFatigueInsight(days),
+    morningAfternoonInsight(days),
+    goalFatigueInsight(days, options.dailyGoalMl),
+  ];
+};
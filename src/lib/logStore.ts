@@ -1,128 +1,121 @@
 import { create } from 'zustand';
-import { 
-  collection, 
-  addDoc, 
-  getDocs, 
-  query, 
-  where, 
-  orderBy, 
-  Timestamp,
-  doc,
-  updateDoc,
-  deleteDoc
-} from 'firebase/firestore';
-import { db, auth, usingMockFirebase, MOCK_USER_ID } from './firebase';
-
-// For mock implementation
-const mockStorage = new Map<string, WaterLogEntry>();
-
-// Define the water log entry type
-export interface WaterLogEntry {
-  id?: string;
-  userId: string;
-  amountCups: number;
-  fatigue: number; // 1-5 scale
-  timestamp: Timestamp;
-}
+import { Timestamp } from 'firebase/firestore';
+import { auth, MOCK_USER_ID } from './firebase';
+import {
+  getLogRepository,
+  getStorageBackend,
+  requiresFirebaseAuth,
+  isSyncingRepository,
+  onSyncStatusChange,
+  INITIAL_SYNC_STATUS,
+  SyncStatus,
+  WaterLogEntry,
+  NewLogEntry,
+  LogEntryChanges,
+  DateRange
+} from './storage';
+import { DayBoundary, getPresetRange, getTzOffsetMinutes } from './dateRanges';
+import { TIME_SPANS, TimeSpan } from './timeSpans';
+import { sortNewestFirst } from './storage/utils';
+import {
+  DEFAULT_BACKFILL_HORIZON_DAYS,
+  EntryValidationError,
+  toTimestamp,
+  validateEntryTimestamp
+} from './entryValidation';
+
+export type { WaterLogEntry } from './storage';
+
+// Resolve the id of the user whose entries we read and write.
+// Device-only backends are not tied to an account and use a fixed id.
+export const getCurrentUserId = (): string | undefined =>
+  requiresFirebaseAuth(getStorageBackend()) ? auth.currentUser?.uid : MOCK_USER_ID;
+
+// Entry fields provided by the UI. `timestamp` defaults to now and may be
+// set to an earlier time to backfill an entry. The zone is recorded by the store.
+export type EntryInput = Omit<WaterLogEntry, 'id' | 'userId' | 'timestamp' | 'tzOffsetMinutes'> & {
+  timestamp?: Date | Timestamp;
+};
 
 // Define the store state
 interface LogState {
   entries: WaterLogEntry[];
   isLoading: boolean;
   error: string | null;
-  fetchEntries: (timespan?: 'day' | 'week' | 'twoweeks' | 'month') => Promise<void>;
-  addEntry: (entry: Omit<WaterLogEntry, 'id' | 'userId' | 'timestamp'>) => Promise<string>;
-  updateEntry: (id: string, entry: Partial<Omit<WaterLogEntry, 'id' | 'userId'>>) => Promise<void>;
+  syncStatus: SyncStatus;
+  backfillHorizonDays: number;
+  fetchEntries: (range: DateRange) => Promise<WaterLogEntry[]>;
+  fetchTimespan: (timespan?: TimeSpan, boundary?: DayBoundary) => Promise<WaterLogEntry[]>;
+  fetchEarliestEntryDate: () => Promise<Date | null>;
+  addEntry: (entry: EntryInput) => Promise<string>;
+  updateEntry: (id: string, entry: Partial<EntryInput>) => Promise<void>;
   deleteEntry: (id: string) => Promise<void>;
+  restoreEntry: (entry: WaterLogEntry) => Promise<void>;
   generateSeedData: () => Promise<void>;
+  fetchAllEntries: () => Promise<WaterLogEntry[]>;
+  importEntries: (entries: WaterLogEntry[]) => Promise<number>;
+  wipeAllEntries: () => Promise<number>;
+  syncNow: () => Promise<void>;
+  setBackfillHorizonDays: (days: number) => void;
 }
 
+// Surface validation problems as-is, everything else as a generic message
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof EntryValidationError ? err.message : fallback;
+
 // Create the store
 export const useLogStore = create<LogState>((set, get) => ({
   entries: [],
   isLoading: false,
   error: null,
+  syncStatus: INITIAL_SYNC_STATUS,
+  backfillHorizonDays: DEFAULT_BACKFILL_HORIZON_DAYS,
 
-  // Fetch entries based on timespan
-  fetchEntries: async (timespan = 'week') => {
-    const userId = usingMockFirebase ? MOCK_USER_ID : auth.currentUser?.uid;
+  // Fetch entries inside a date range
+  fetchEntries: async (range) => {
+    const userId = getCurrentUserId();
     
     if (!userId) {
       console.error("No user ID available for fetching entries");
       set({ error: 'User not authenticated' });
-      return;
+      throw new Error('User not authenticated');
     }
 
     set({ isLoading: true, error: null });
-    console.log(`Fetching entries for timespan: ${timespan}, user: ${userId}`);
+    console.log(`Fetching entries from ${range.start.toISOString()} to ${range.end.toISOString()}, user: ${userId}`);
     
     try {
-      // Calculate the start date based on the timespan
-      const now = new Date();
-      const startDate = new Date();
-      
-      switch (timespan) {
-        case 'day':
-          startDate.setHours(0, 0, 0, 0);
-          break;
-        case 'week':
-          startDate.setDate(now.getDate() - 7);
-          break;
-        case 'twoweeks':
-          startDate.setDate(now.getDate() - 14);
-          break;
-        case 'month':
-          startDate.setDate(now.getDate() - 30);
-          break;
-        default:
-          startDate.setDate(now.getDate() - 7);
-      }
-
-      let fetchedEntries: WaterLogEntry[] = [];
-      
-      if (usingMockFirebase) {
-        // Use the mock storage for development
-        console.log("Using mock storage to fetch entries");
-        const mockEntries = Array.from(mockStorage.values()).filter(entry => 
-          entry.userId === userId && 
-          entry.timestamp.toDate() >= startDate
-        );
-        
-        // Sort by timestamp descending
-        mockEntries.sort((a, b) => 
-          b.timestamp.toDate().getTime() - a.timestamp.toDate().getTime()
-        );
-        
-        fetchedEntries = mockEntries;
-        console.log(`Fetched ${fetchedEntries.length} mock entries`);
-      } else {
-        // Create a Firestore query
-        const q = query(
-          collection(db, `users/${userId}/logEntries`),
-          where('timestamp', '>=', Timestamp.fromDate(startDate)),
-          orderBy('timestamp', 'desc')
-        );
-
-        // Execute the query
-        const querySnapshot = await getDocs(q);
-        
-        // Process the results
-        fetchedEntries = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data() as Omit<WaterLogEntry, 'id'>
-        }));
-      }
+      const fetchedEntries = await getLogRepository().listByRange(userId, range);
 
       set({ entries: fetchedEntries, isLoading: false });
+      return fetchedEntries;
     } catch (err) {
       console.error('Error fetching entries:', err);
       set({ error: 'Failed to fetch entries', isLoading: false });
+      throw err;
     }
   },
 
+  // Fetch entries for the preset window containing today
+  fetchTimespan: async (timespan = 'week', boundary) => {
+    const earliest = TIME_SPANS[timespan].length === null ? await get().fetchEarliestEntryDate() : null;
+    return get().fetchEntries(getPresetRange(timespan, new Date(), boundary, earliest));
+  },
+
+  // Find how far back the user's history goes
+  fetchEarliestEntryDate: async () => {
+    const userId = getCurrentUserId();
+    
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    return getLogRepository().getEarliestEntryDate(userId);
+  },
+
   // Add a new entry
   addEntry: async (entry) => {
-    const userId = usingMockFirebase ? MOCK_USER_ID : auth.currentUser?.uid;
+    const userId = getCurrentUserId();
     
     if (!userId) {
       console.error("No user ID available for adding entry");
@@ -132,46 +125,33 @@ export const useLogStore = create<LogState>((set, get) => ({
 
     set({ isLoading: true, error: null });
     try {
-      const newEntry = {
+      const timestamp = entry.timestamp ? toTimestamp(entry.timestamp) : Timestamp.now();
+      validateEntryTimestamp(timestamp, get().backfillHorizonDays);
+
+      const newEntry: NewLogEntry = {
         ...entry,
         userId,
-        timestamp: Timestamp.now()
+        timestamp,
+        tzOffsetMinutes: getTzOffsetMinutes(timestamp.toDate())
       };
 
-      let entryId: string;
-      
-      if (usingMockFirebase) {
-        // Use the mock storage for development
-        entryId = `mock-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        mockStorage.set(entryId, {
-          ...newEntry,
-          id: entryId
-        });
-        console.log(`Added mock entry with ID: ${entryId}`);
-      } else {
-        const docRef = await addDoc(
-          collection(db, `users/${userId}/logEntries`), 
-          newEntry
-        );
-        entryId = docRef.id;
-      }
+      const entryId = await getLogRepository().add(userId, newEntry);
 
-      // Update local state
-      const entries = [...get().entries];
-      entries.unshift({ ...newEntry, id: entryId });
+      // Update local state, keeping backfilled entries in time order
+      const entries = sortNewestFirst([...get().entries, { ...newEntry, id: entryId }]);
       set({ entries, isLoading: false });
       
       return entryId;
     } catch (err) {
       console.error('Error adding entry:', err);
-      set({ error: 'Failed to add entry', isLoading: false });
+      set({ error: errorMessage(err, 'Failed to add entry'), isLoading: false });
       throw err;
     }
   },
 
   // Update an existing entry
   updateEntry: async (id, entry) => {
-    const userId = usingMockFirebase ? MOCK_USER_ID : auth.currentUser?.uid;
+    const userId = getCurrentUserId();
     
     if (!userId) {
       console.error("No user ID available for updating entry");
@@ -181,39 +161,35 @@ export const useLogStore = create<LogState>((set, get) => ({
 
     set({ isLoading: true, error: null });
     try {
-      if (usingMockFirebase) {
-        // Use the mock storage for development
-        const existingEntry = mockStorage.get(id);
-        if (!existingEntry) {
-          throw new Error(`Entry with ID ${id} not found`);
-        }
-        
-        mockStorage.set(id, {
-          ...existingEntry,
-          ...entry
-        });
-        console.log(`Updated mock entry with ID: ${id}`);
-      } else {
-        const docRef = doc(db, `users/${userId}/logEntries/${id}`);
-        await updateDoc(docRef, entry);
+      const { timestamp, ...fields } = entry;
+      const changes: LogEntryChanges = { ...fields };
+
+      // Moving an entry to another time goes through the same checks as adding
+      if (timestamp) {
+        changes.timestamp = toTimestamp(timestamp);
+        validateEntryTimestamp(changes.timestamp, get().backfillHorizonDays);
+        // A moved entry is treated as logged in the zone it was edited in
+        changes.tzOffsetMinutes = getTzOffsetMinutes(changes.timestamp.toDate());
       }
 
+      await getLogRepository().update(userId, id, changes);
+
       // Update local state
-      const entries = get().entries.map(e => 
-        e.id === id ? { ...e, ...entry } : e
-      );
+      const entries = sortNewestFirst(get().entries.map(e => 
+        e.id === id ? { ...e, ...changes } : e
+      ));
       
       set({ entries, isLoading: false });
     } catch (err) {
       console.error('Error updating entry:', err);
-      set({ error: 'Failed to update entry', isLoading: false });
+      set({ error: errorMessage(err, 'Failed to update entry'), isLoading: false });
       throw err;
     }
   },
 
   // Delete an entry
   deleteEntry: async (id) => {
-    const userId = usingMockFirebase ? MOCK_USER_ID : auth.currentUser?.uid;
+    const userId = getCurrentUserId();
     
     if (!userId) {
       console.error("No user ID available for deleting entry");
@@ -223,18 +199,7 @@ export const useLogStore = create<LogState>((set, get) => ({
 
     set({ isLoading: true, error: null });
     try {
-      if (usingMockFirebase) {
-        // Use the mock storage for development
-        if (!mockStorage.has(id)) {
-          throw new Error(`Entry with ID ${id} not found`);
-        }
-        
-        mockStorage.delete(id);
-        console.log(`Deleted mock entry with ID: ${id}`);
-      } else {
-        const docRef = doc(db, `users/${userId}/logEntries/${id}`);
-        await deleteDoc(docRef);
-      }
+      await getLogRepository().delete(userId, id);
 
       // Update local state
       const entries = get().entries.filter(e => e.id !== id);
@@ -246,9 +211,34 @@ export const useLogStore = create<LogState>((set, get) => ({
     }
   },
 
+  // Put a deleted entry back exactly as it was, id and zone included. It
+  // was valid when logged, so the backfill horizon does not apply.
+  restoreEntry: async (entry) => {
+    const userId = getCurrentUserId();
+    
+    if (!userId) {
+      console.error("No user ID available for restoring entry");
+      set({ error: 'User not authenticated' });
+      throw new Error('User not authenticated');
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const restored = { ...entry, userId };
+      const id = await getLogRepository().add(userId, restored);
+
+      const entries = sortNewestFirst([...get().entries.filter(e => e.id !== id), { ...restored, id }]);
+      set({ entries, isLoading: false });
+    } catch (err) {
+      console.error('Error restoring entry:', err);
+      set({ error: 'Failed to restore entry', isLoading: false });
+      throw err;
+    }
+  },
+
   // Generate seed data for 30 days
   generateSeedData: async () => {
-    const userId = usingMockFirebase ? MOCK_USER_ID : auth.currentUser?.uid;
+    const userId = getCurrentUserId();
     
     if (!userId) {
       console.error("No user ID available for generating seed data");
@@ -261,7 +251,7 @@ export const useLogStore = create<LogState>((set, get) => ({
     
     try {
       const now = new Date();
-      const entries: Omit<WaterLogEntry, 'id'>[] = [];
+      const entries: NewLogEntry[] = [];
 
       // Generate 30 days of data
       for (let i = 0; i < 30; i++) {
@@ -280,45 +270,20 @@ export const useLogStore = create<LogState>((set, get) => ({
           
           entries.push({
             userId,
-            amountCups: parseFloat((Math.random() * 2 + 0.5).toFixed(1)), // 0.5 to 2.5 cups
+            amountMl: Math.round(Math.random() * 48 + 12) * 10, // 120 to 600 ml
             fatigue: Math.floor(Math.random() * 5) + 1, // 1-5 scale
-            timestamp: Timestamp.fromDate(date)
+            timestamp: Timestamp.fromDate(date),
+            tzOffsetMinutes: getTzOffsetMinutes(date)
           });
         }
       }
 
       console.log(`Generated ${entries.length} sample entries`);
 
-      if (usingMockFirebase) {
-        // Store directly in mock storage
-        mockStorage.clear(); // Clear existing data
-        
-        for (const entry of entries) {
-          const entryId = `mock-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-          mockStorage.set(entryId, {
-            ...entry,
-            id: entryId
-          });
-        }
-        
-        console.log(`Added ${entries.length} mock entries`);
-      } else {
-        // Add all entries to Firestore
-        const batch = [];
-        for (const entry of entries) {
-          batch.push(
-            addDoc(
-              collection(db, `users/${userId}/logEntries`), 
-              entry
-            )
-          );
-        }
-
-        await Promise.all(batch);
-      }
+      await getLogRepository().bulkAdd(userId, entries);
       
       // Refresh the entries
-      await get().fetchEntries('month');
+      await get().fetchTimespan('month');
       console.log("Seed data generation complete, entries fetched");
       
       set({ isLoading: false });
@@ -326,5 +291,84 @@ export const useLogStore = create<LogState>((set, get) => ({
       console.error('Error generating seed data:', err);
       set({ error: 'Failed to generate seed data', isLoading: false });
     }
-  }
-})); 
\ No newline at end of file
+  },
+
+  // Fetch the user's whole history, e.g. for an export
+  fetchAllEntries: async () => {
+    const userId = getCurrentUserId();
+    
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const earliest = await getLogRepository().getEarliestEntryDate(userId);
+    if (!earliest) return [];
+
+    // Entries are never more than a moment in the future, a day covers clock skew
+    const end = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    return getLogRepository().listByRange(userId, { start: earliest, end });
+  },
+
+  // Write previously exported entries for the current user. Ids are kept, so
+  // importing the same file twice overwrites rather than duplicates.
+  importEntries: async (entries) => {
+    const userId = getCurrentUserId();
+    
+    if (!userId) {
+      console.error("No user ID available for importing entries");
+      set({ error: 'User not authenticated' });
+      throw new Error('User not authenticated');
+    }
+
+    set({ isLoading: true, error: null });
+    console.log(`Importing ${entries.length} entries for user: ${userId}`);
+
+    try {
+      await getLogRepository().bulkAdd(userId, entries.map(entry => ({ ...entry, userId })));
+      set({ isLoading: false });
+      return entries.length;
+    } catch (err) {
+      console.error('Error importing entries:', err);
+      set({ error: 'Failed to import entries', isLoading: false });
+      throw err;
+    }
+  },
+
+  // Delete every entry the user has logged
+  wipeAllEntries: async () => {
+    const userId = getCurrentUserId();
+    
+    if (!userId) {
+      console.error("No user ID available for wiping entries");
+      set({ error: 'User not authenticated' });
+      throw new Error('User not authenticated');
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const entries = await get().fetchAllEntries();
+      console.log(`Deleting ${entries.length} entries for user: ${userId}`);
+      await getLogRepository().deleteAll(userId);
+
+      set({ entries: [], isLoading: false });
+      return entries.length;
+    } catch (err) {
+      console.error('Error wiping entries:', err);
+      set({ error: 'Failed to delete entries', isLoading: false });
+      throw err;
+    }
+  },
+
+  // Replay queued writes right away, e.g. from a "retry" button
+  syncNow: async () => {
+    const repository = getLogRepository();
+    if (isSyncingRepository(repository)) {
+      await repository.sync();
+    }
+  },
+
+  setBackfillHorizonDays: (days) => set({ backfillHorizonDays: days })
+}));
+
+// Mirror outbox progress into the store so the UI can show it
+onSyncStatusChange(syncStatus => useLogStore.setState({ syncStatus })); 
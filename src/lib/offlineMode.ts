@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { resolveStorageBackend, setLogRepository } from './storage';
+
+const OFFLINE_MODE_KEY = 'waterlogger:offlineMode';
+
+// "No account" mode: keep everything on the device and never sign in
+interface OfflineModeState {
+  enabled: boolean;
+  isHydrated: boolean;
+  hydrate: () => Promise<void>;
+  setEnabled: (enabled: boolean) => Promise<void>;
+}
+
+// Point the log store at the device-only backend, or back at the configured one
+const applyOfflineMode = (enabled: boolean) => {
+  setLogRepository(enabled ? 'local' : resolveStorageBackend());
+};
+
+export const useOfflineModeStore = create<OfflineModeState>((set) => ({
+  enabled: false,
+  isHydrated: false,
+
+  // Restore the saved choice on startup
+  hydrate: async () => {
+    try {
+      const enabled = (await AsyncStorage.getItem(OFFLINE_MODE_KEY)) === 'true';
+      applyOfflineMode(enabled);
+      set({ enabled, isHydrated: true });
+    } catch (err) {
+      console.error('Error loading offline mode:', err);
+      set({ isHydrated: true });
+    }
+  },
+
+  setEnabled: async (enabled) => {
+    applyOfflineMode(enabled);
+    set({ enabled });
+    await AsyncStorage.setItem(OFFLINE_MODE_KEY, String(enabled));
+  },
+}));
@@ -0,0 +1,33 @@
+import { ReminderSchedule } from './storage';
+
+// Reminder times on the given day, in local time
+export const getReminderTimes = (schedule: ReminderSchedule, day: Date): Date[] => {
+  const times: Date[] = [];
+  if (!schedule.enabled || schedule.intervalMinutes <= 0) return times;
+
+  const time = new Date(day);
+  time.setHours(schedule.startHour, 0, 0, 0);
+  const end = new Date(day);
+  end.setHours(schedule.endHour, 0, 0, 0);
+
+  while (time <= end) {
+    times.push(new Date(time));
+    time.setMinutes(time.getMinutes() + schedule.intervalMinutes);
+  }
+  return times;
+};
+
+// The first reminder strictly after `now`, looking ahead to tomorrow if needed
+export const getNextReminder = (schedule: ReminderSchedule, now: Date = new Date()): Date | null => {
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  const upcoming = [...getReminderTimes(schedule, now), ...getReminderTimes(schedule, tomorrow)];
+  return upcoming.find(time => time > now) ?? null;
+};
+
+export const formatHour = (hour: number): string => {
+  const date = new Date();
+  date.setHours(hour, 0, 0, 0);
+  return date.toLocaleTimeString([], { hour: 'numeric' });
+};
@@ -1,5 +1,4 @@
-import { Timestamp } from 'firebase/firestore';
-import { useLogStore, WaterLogEntry } from './logStore';
+import { useLogStore } from './logStore';
 
 // Generate random number between min and max (inclusive)
 const randomInt = (min: number, max: number) => {
@@ -44,10 +43,16 @@ export const seedData = async () => {
       const timestamp = new Date(date);
       timestamp.setHours(hours, minutes, seconds);
       
-      // Generate entry with random amount (1-3 cups) and random fatigue level (1-5)
+      // Later today hasn't happened yet
+      if (timestamp > today) {
+        continue;
+      }
+      
+      // Generate entry with random amount (250-750 ml) and random fatigue level (1-5)
       await addEntry({
-        amountCups: randomInt(1, 3),
-        fatigue: randomInt(1, 5)
+        amountMl: randomInt(1, 3) * 250,
+        fatigue: randomInt(1, 5),
+        timestamp
       });
     }
   }
@@ -0,0 +1,107 @@
+import { create } from 'zustand';
+import { getSettingsRepository, UserSettings } from './storage';
+import { getCurrentUserId } from './logStore';
+import { ML_PER_CUP } from './units';
+import { BEVERAGE_TYPES, DEFAULT_BEVERAGE_PROFILES } from './beverages';
+
+export type {
+  UserSettings,
+  VolumeUnit,
+  ThemeMode,
+  ZoneView,
+  ReminderSchedule,
+  BeverageType,
+  BeverageProfile,
+} from './storage';
+
+// Used for any setting the user has not changed
+export const DEFAULT_SETTINGS: UserSettings = {
+  dailyGoalMl: 2000,
+  volumeUnit: 'cups',
+  themeMode: 'system',
+  weekStartDay: 0,
+  dayStartHour: 0,
+  wakeHour: 7,
+  bedHour: 22,
+  zoneView: 'current',
+  reminders: {
+    enabled: false,
+    startHour: 9,
+    endHour: 21,
+    intervalMinutes: 120,
+  },
+  beverages: DEFAULT_BEVERAGE_PROFILES,
+};
+
+// Settings saved before volumes were stored in millilitres
+type LegacySettings = Partial<UserSettings> & { dailyGoalCups?: number };
+
+// Fill in defaults for anything missing from stored or imported settings
+export const withDefaultSettings = (stored: LegacySettings | null): UserSettings => {
+  const { dailyGoalCups, ...current } = stored ?? {};
+  return {
+    ...DEFAULT_SETTINGS,
+    ...(typeof dailyGoalCups === 'number' && { dailyGoalMl: dailyGoalCups * ML_PER_CUP }),
+    ...current,
+    reminders: { ...DEFAULT_SETTINGS.reminders, ...current.reminders },
+    // Merge per beverage so types added later still get their defaults
+    beverages: Object.fromEntries(
+      BEVERAGE_TYPES.map(type => [
+        type,
+        { ...DEFAULT_BEVERAGE_PROFILES[type], ...current.beverages?.[type] },
+      ])
+    ) as UserSettings['beverages'],
+  };
+};
+
+interface SettingsState {
+  settings: UserSettings;
+  isLoaded: boolean;
+  error: string | null;
+  loadSettings: () => Promise<void>;
+  updateSettings: (changes: Partial<UserSettings>) => Promise<void>;
+}
+
+export const useSettingsStore = create<SettingsState>((set, get) => ({
+  settings: DEFAULT_SETTINGS,
+  isLoaded: false,
+  error: null,
+
+  // Load settings for the current user from the active backend
+  loadSettings: async () => {
+    const userId = getCurrentUserId();
+    if (!userId) {
+      console.error("No user ID available for loading settings");
+      return;
+    }
+
+    try {
+      const stored = await getSettingsRepository().load(userId);
+      set({ settings: withDefaultSettings(stored), isLoaded: true, error: null });
+    } catch (err) {
+      console.error('Error loading settings:', err);
+      set({ error: 'Failed to load settings', isLoaded: true });
+    }
+  },
+
+  // Apply changes locally right away, then persist them
+  updateSettings: async (changes) => {
+    const userId = getCurrentUserId();
+    if (!userId) {
+      console.error("No user ID available for saving settings");
+      set({ error: 'User not authenticated' });
+      throw new Error('User not authenticated');
+    }
+
+    const settings = { ...get().settings, ...changes };
+    set({ settings, error: null });
+
+    try {
+      await getSettingsRepository().save(userId, settings);
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      set({ error: 'Failed to save settings' });
+      throw err;
+    }
+  },
+}));
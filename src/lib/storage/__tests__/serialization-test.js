@@ -0,0 +1,80 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp } from 'firebase/firestore';
+import { deserializeEntries, serializeEntries, SERIALIZATION_VERSION } from '../serialization';
+import { loadOutbox } from '../outbox';
+import { ML_PER_CUP } from '../../units';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const storedTimestamp = { seconds: 1700000000, nanoseconds: 0 };
+
+describe('deserializeEntries', () => {
+  it('round-trips the current version', () => {
+    const entries = [
+      { id: 'a', userId: 'u', amountMl: 250, fatigue: 2, timestamp: new Timestamp(1700000000, 5) },
+    ];
+
+    const restored = deserializeEntries(serializeEntries(entries));
+
+    expect(restored).toEqual(entries);
+    expect(restored[0].timestamp).toBeInstanceOf(Timestamp);
+  });
+
+  it('converts v1 amountCups entries to millilitres', () => {
+    const raw = JSON.stringify({
+      version: 1,
+      entries: [{ id: 'a', userId: 'u', amountCups: 2, fatigue: 3, timestamp: storedTimestamp }],
+    });
+
+    const [entry] = deserializeEntries(raw);
+
+    expect(entry.amountMl).toBeCloseTo(2 * ML_PER_CUP);
+    expect(entry).not.toHaveProperty('amountCups');
+  });
+
+  it('migrates bare v0 arrays through every version', () => {
+    const raw = JSON.stringify([
+      { id: 'a', userId: 'u', amountCups: 1, fatigue: 3, timestamp: storedTimestamp },
+    ]);
+
+    expect(deserializeEntries(raw)[0].amountMl).toBeCloseTo(ML_PER_CUP);
+  });
+
+  it('rejects versions newer than it understands', () => {
+    const raw = JSON.stringify({ version: SERIALIZATION_VERSION + 1, entries: [] });
+
+    expect(() => deserializeEntries(raw)).toThrow(/newer than supported/);
+  });
+});
+
+describe('loadOutbox', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('upgrades queued v1 writes to millilitres', async () => {
+    const entry = { id: 'a', userId: 'u', amountCups: 1, fatigue: 3, timestamp: { __timestamp: [1700000000, 0] } };
+    await AsyncStorage.setItem(
+      'waterlogger:outbox',
+      JSON.stringify({
+        version: 1,
+        items: [
+          { idempotencyKey: 'a', mutation: { type: 'add', userId: 'u', entry }, attempts: 0, enqueuedAt: 0 },
+          {
+            idempotencyKey: 'b',
+            mutation: { type: 'update', userId: 'u', id: 'a', changes: { amountCups: 0.5 } },
+            attempts: 0,
+            enqueuedAt: 0,
+          },
+        ],
+      })
+    );
+
+    const [add, update] = await loadOutbox();
+
+    expect(add.mutation.entry.amountMl).toBeCloseTo(ML_PER_CUP);
+    expect(add.mutation.entry.timestamp).toBeInstanceOf(Timestamp);
+    expect(update.mutation.changes).toEqual({ amountMl: 0.5 * ML_PER_CUP });
+  });
+});
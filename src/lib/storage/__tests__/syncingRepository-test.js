@@ -0,0 +1,249 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp } from 'firebase/firestore';
+import { createMemoryRepository } from '../memoryRepository';
+import { createSyncingRepository, getRetryDelay } from '../syncingRepository';
+import { WriteRejectedError } from '../errors';
+import { createMemorySettingsRepository } from '../settingsRepositories';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const USER_ID = 'user-1';
+const ALL_TIME = { start: new Date(0), end: new Date(2100, 0, 1) };
+
+// In-memory backend whose writes can be made to fail like a dropped
+// connection, or be refused for the entry ids in `refusedIds`
+const createFlakyRepository = () => {
+  const backing = createMemoryRepository();
+  const network = { online: true, loseResponses: false, refusedIds: new Set() };
+
+  const write = (call, id) => async () => {
+    if (!network.online) throw new Error('Network request failed');
+    if (network.refusedIds.has(id)) throw new WriteRejectedError('permission-denied: Missing or insufficient permissions.');
+    const result = await call();
+    // The write reached the server but the client never heard back
+    if (network.loseResponses) throw new Error('Network request timed out');
+    return result;
+  };
+
+  const repository = {
+    listByRange: (userId, range) => backing.listByRange(userId, range),
+    add: (userId, entry) => write(() => backing.add(userId, entry), entry.id)(),
+    update: (userId, id, changes) => write(() => backing.update(userId, id, changes), id)(),
+    delete: (userId, id) => write(() => backing.delete(userId, id))(),
+    bulkAdd: (userId, entries) => write(() => backing.bulkAdd(userId, entries))(),
+    deleteAll: (userId) => write(() => backing.deleteAll(userId))(),
+    getEarliestEntryDate: (userId) => backing.getEarliestEntryDate(userId),
+  };
+
+  return { repository, backing, network };
+};
+
+const makeEntry = (amountMl, minutesAgo = 0) => ({
+  userId: USER_ID,
+  amountMl,
+  fatigue: 3,
+  timestamp: Timestamp.fromMillis(Date.now() - minutesAgo * 60 * 1000),
+});
+
+describe('createSyncingRepository', () => {
+  let repositories;
+
+  const createRepository = (remote, onStatusChange) => {
+    const repository = createSyncingRepository(remote, {
+      onStatusChange,
+      retryBaseDelayMs: 60 * 60 * 1000,
+    });
+    repositories.push(repository);
+    return repository;
+  };
+
+  beforeEach(async () => {
+    repositories = [];
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    repositories.forEach(repository => repository.dispose());
+  });
+
+  it('keeps writes made while offline and shows them before they sync', async () => {
+    const { repository: remote, backing, network } = createFlakyRepository();
+    network.online = false;
+    const repository = createRepository(remote);
+
+    const id = await repository.add(USER_ID, makeEntry(500));
+    await repository.sync();
+
+    expect(await backing.listByRange(USER_ID, ALL_TIME)).toHaveLength(0);
+    const visible = await repository.listByRange(USER_ID, ALL_TIME);
+    expect(visible.map(e => e.id)).toEqual([id]);
+  });
+
+  it('replays queued mutations in order once connectivity returns', async () => {
+    const { repository: remote, backing, network } = createFlakyRepository();
+    network.online = false;
+    const repository = createRepository(remote);
+
+    const keptId = await repository.add(USER_ID, makeEntry(250, 10));
+    const removedId = await repository.add(USER_ID, makeEntry(500, 5));
+    await repository.update(USER_ID, keptId, { fatigue: 5 });
+    await repository.delete(USER_ID, removedId);
+
+    network.online = true;
+    await repository.sync();
+
+    const stored = await backing.listByRange(USER_ID, ALL_TIME);
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ id: keptId, amountMl: 250, fatigue: 5 });
+  });
+
+  it('queues a wipe as one mutation and hides the wiped entries meanwhile', async () => {
+    const { repository: remote, backing, network } = createFlakyRepository();
+    await backing.bulkAdd(USER_ID, [makeEntry(250, 10), makeEntry(500, 5)]);
+    network.online = false;
+    const statuses = [];
+    const repository = createRepository(remote, status => statuses.push(status));
+
+    await repository.deleteAll(USER_ID);
+    const keptId = await repository.add(USER_ID, makeEntry(750));
+    await repository.sync();
+
+    expect(statuses[statuses.length - 1]).toMatchObject({ pendingCount: 2 });
+    expect((await repository.listByRange(USER_ID, ALL_TIME)).map(e => e.id)).toEqual([keptId]);
+
+    network.online = true;
+    await repository.sync();
+    expect((await backing.listByRange(USER_ID, ALL_TIME)).map(e => e.id)).toEqual([keptId]);
+  });
+
+  it('sets a refused write aside after a few attempts and syncs the rest', async () => {
+    const { repository: remote, backing, network } = createFlakyRepository();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const statuses = [];
+    const repository = createRepository(remote, status => statuses.push(status));
+    network.refusedIds.add('entry-refused');
+
+    await repository.add(USER_ID, { ...makeEntry(250, 10), id: 'entry-refused' });
+    const keptId = await repository.add(USER_ID, makeEntry(500, 5));
+    for (let i = 0; i < 3; i++) await repository.sync();
+
+    expect(statuses).toContainEqual(expect.objectContaining({ state: 'offline', pendingCount: 2, failedCount: 0 }));
+    expect(statuses[statuses.length - 1]).toMatchObject({
+      state: 'idle',
+      pendingCount: 0,
+      failedCount: 1,
+      lastError: 'permission-denied: Missing or insufficient permissions.',
+    });
+    expect((await backing.listByRange(USER_ID, ALL_TIME)).map(e => e.id)).toEqual([keptId]);
+
+    // Still reported after a restart
+    const restarted = createRepository(remote, status => statuses.push(status));
+    await restarted.sync();
+    expect(statuses[statuses.length - 1]).toMatchObject({ failedCount: 1 });
+    consoleError.mockRestore();
+  });
+
+  it('keeps retrying a write that fails for lack of a connection', async () => {
+    const { repository: remote, backing, network } = createFlakyRepository();
+    network.online = false;
+    const repository = createRepository(remote);
+
+    await repository.add(USER_ID, makeEntry(250));
+    for (let i = 0; i < 5; i++) await repository.sync();
+    network.online = true;
+    await repository.sync();
+
+    expect(await backing.listByRange(USER_ID, ALL_TIME)).toHaveLength(1);
+  });
+
+  it('queues settings saves in the same outbox, keeping only the latest', async () => {
+    const { repository: remote, network } = createFlakyRepository();
+    const settingsBacking = createMemorySettingsRepository();
+    const settingsRemote = {
+      load: (userId) => settingsBacking.load(userId),
+      save: async (userId, settings) => {
+        if (!network.online) throw new Error('Network request failed');
+        await settingsBacking.save(userId, settings);
+      },
+    };
+    const statuses = [];
+    const repository = createSyncingRepository(remote, {
+      onStatusChange: status => statuses.push(status),
+      retryBaseDelayMs: 60 * 60 * 1000,
+      settingsRemote,
+    });
+    repositories.push(repository);
+    network.online = false;
+
+    await repository.settings.save(USER_ID, { dailyGoalMl: 2000 });
+    await repository.settings.save(USER_ID, { dailyGoalMl: 2500 });
+    await repository.sync();
+
+    expect(statuses[statuses.length - 1]).toMatchObject({ state: 'offline', pendingCount: 1 });
+    expect(await repository.settings.load(USER_ID)).toEqual({ dailyGoalMl: 2500 });
+    expect(await settingsBacking.load(USER_ID)).toBeNull();
+
+    network.online = true;
+    await repository.sync();
+    expect(await settingsBacking.load(USER_ID)).toEqual({ dailyGoalMl: 2500 });
+  });
+
+  it('does not create duplicates when a write is replayed after a lost response', async () => {
+    const { repository: remote, backing, network } = createFlakyRepository();
+    network.loseResponses = true;
+    const repository = createRepository(remote);
+
+    await repository.add(USER_ID, makeEntry(250));
+    await repository.sync();
+    network.loseResponses = false;
+    await repository.sync();
+
+    expect(await backing.listByRange(USER_ID, ALL_TIME)).toHaveLength(1);
+  });
+
+  it('restores the outbox from storage after a restart', async () => {
+    const { repository: remote, backing, network } = createFlakyRepository();
+    network.online = false;
+    const first = createRepository(remote);
+    await first.add(USER_ID, makeEntry(750));
+    await first.sync();
+    first.dispose();
+
+    network.online = true;
+    const second = createRepository(remote);
+    await second.sync();
+
+    expect(await backing.listByRange(USER_ID, ALL_TIME)).toHaveLength(1);
+  });
+
+  it('reports pending changes while offline and idle once synced', async () => {
+    const { repository: remote, network } = createFlakyRepository();
+    const statuses = [];
+    network.online = false;
+    const repository = createRepository(remote, status => statuses.push(status));
+
+    await repository.add(USER_ID, makeEntry(250));
+    await repository.sync();
+    expect(statuses[statuses.length - 1]).toMatchObject({
+      state: 'offline',
+      pendingCount: 1,
+      lastError: 'Network request failed',
+    });
+
+    network.online = true;
+    await repository.sync();
+    expect(statuses[statuses.length - 1]).toMatchObject({ state: 'idle', pendingCount: 0 });
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially up to the maximum', () => {
+    expect(getRetryDelay(1, 1000, 10000)).toBe(1000);
+    expect(getRetryDelay(2, 1000, 10000)).toBe(2000);
+    expect(getRetryDelay(3, 1000, 10000)).toBe(4000);
+    expect(getRetryDelay(10, 1000, 10000)).toBe(10000);
+  });
+});
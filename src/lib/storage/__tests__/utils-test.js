@@ -0,0 +1,16 @@
+import { findEarliestDate } from '../utils';
+
+const entryAt = (millis) => ({ timestamp: { toMillis: () => millis } });
+
+describe('findEarliestDate', () => {
+  it('finds the oldest entry, or null without any', () => {
+    expect(findEarliestDate([entryAt(3000), entryAt(1000), entryAt(2000)])).toEqual(new Date(1000));
+    expect(findEarliestDate([])).toBeNull();
+  });
+
+  it('handles histories too long to spread into an argument list', () => {
+    const entries = Array.from({ length: 200000 }, (_, i) => entryAt(200000 - i));
+
+    expect(findEarliestDate(entries)).toEqual(new Date(1));
+  });
+});
@@ -0,0 +1,82 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LogRepository, WaterLogEntry } from './types';
+import { createEntryId, findEarliestDate, isInRange, sortNewestFirst, upsertEntry } from './utils';
+import { EntryNotFoundError } from './errors';
+import { serializeEntries, deserializeEntries } from './serialization';
+
+const storageKey = (userId: string) => `waterlogger:entries:${userId}`;
+
+/**
+ * Local-only repository that keeps every entry of a user on the device
+ * using AsyncStorage. Nothing leaves the device, and entries survive reloads.
+ */
+export const createAsyncStorageRepository = (): LogRepository => {
+  // Writes are read-modify-write cycles, so run them one at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const load = async (userId: string): Promise<WaterLogEntry[]> => {
+    const raw = await AsyncStorage.getItem(storageKey(userId));
+    return raw ? deserializeEntries(raw) : [];
+  };
+
+  const save = (userId: string, entries: WaterLogEntry[]) =>
+    AsyncStorage.setItem(storageKey(userId), serializeEntries(entries));
+
+  return {
+    listByRange: (userId, range) => exclusive(async () => {
+      const entries = await load(userId);
+      return sortNewestFirst(entries.filter(entry => isInRange(entry, range)));
+    }),
+
+    add: (userId, entry) => exclusive(async () => {
+      const entries = await load(userId);
+      const id = entry.id ?? createEntryId();
+      upsertEntry(entries, { ...entry, userId, id });
+      await save(userId, entries);
+      return id;
+    }),
+
+    update: (userId, id, changes) => exclusive(async () => {
+      const entries = await load(userId);
+      const index = entries.findIndex(e => e.id === id);
+      if (index === -1) {
+        throw new EntryNotFoundError(id);
+      }
+      entries[index] = { ...entries[index], ...changes };
+      await save(userId, entries);
+    }),
+
+    delete: (userId, id) => exclusive(async () => {
+      const entries = await load(userId);
+      const remaining = entries.filter(e => e.id !== id);
+      if (remaining.length === entries.length) {
+        throw new EntryNotFoundError(id);
+      }
+      await save(userId, remaining);
+    }),
+
+    bulkAdd: (userId, newEntries) => exclusive(async () => {
+      const entries = await load(userId);
+      const ids = newEntries.map(entry => {
+        const id = entry.id ?? createEntryId();
+        upsertEntry(entries, { ...entry, userId, id });
+        return id;
+      });
+      await save(userId, entries);
+      return ids;
+    }),
+
+    deleteAll: (userId) => exclusive(async () => {
+      await AsyncStorage.removeItem(storageKey(userId));
+    }),
+
+    getEarliestEntryDate: (userId) => exclusive(async () => {
+      return findEarliestDate(await load(userId));
+    }),
+  };
+};
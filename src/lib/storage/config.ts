@@ -0,0 +1,25 @@
+// Storage backends the app knows how to talk to
+export type StorageBackend = 'memory' | 'local' | 'firestore';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['memory', 'local', 'firestore'];
+
+// Backend used when nothing has been configured
+export const DEFAULT_STORAGE_BACKEND: StorageBackend = 'local';
+
+/**
+ * Read the storage backend from the `EXPO_PUBLIC_STORAGE_BACKEND` env var,
+ * e.g. `EXPO_PUBLIC_STORAGE_BACKEND=firestore npx expo start`.
+ */
+export const resolveStorageBackend = (): StorageBackend => {
+  const configured = process.env.EXPO_PUBLIC_STORAGE_BACKEND;
+  if (!configured) return DEFAULT_STORAGE_BACKEND;
+
+  if (!STORAGE_BACKENDS.includes(configured as StorageBackend)) {
+    console.warn(`Unknown storage backend "${configured}", falling back to "${DEFAULT_STORAGE_BACKEND}"`);
+    return DEFAULT_STORAGE_BACKEND;
+  }
+  return configured as StorageBackend;
+};
+
+// Only the Firestore backend needs a real Firebase account
+export const requiresFirebaseAuth = (backend: StorageBackend) => backend === 'firestore';
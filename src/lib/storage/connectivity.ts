@@ -0,0 +1,19 @@
+import { AppState, Platform } from 'react-native';
+
+/**
+ * Call `onReconnect` whenever the app is likely to have regained network
+ * access: the browser `online` event on web, returning to the foreground on
+ * native.
+ */
+export const subscribeToReconnect = (onReconnect: () => void) => {
+  if (Platform.OS === 'web') {
+    if (typeof window === 'undefined') return () => {};
+    window.addEventListener('online', onReconnect);
+    return () => window.removeEventListener('online', onReconnect);
+  }
+
+  const subscription = AppState.addEventListener('change', state => {
+    if (state === 'active') onReconnect();
+  });
+  return () => subscription.remove();
+};
@@ -0,0 +1,16 @@
+// Raised by repositories when an entry to change does not exist
+export class EntryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Entry with ID ${id} not found`);
+    this.name = 'EntryNotFoundError';
+  }
+}
+
+// Raised by remote repositories when the backend refuses a write outright,
+// e.g. for missing permissions or invalid data, so retrying will not help
+export class WriteRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WriteRejectedError';
+  }
+}
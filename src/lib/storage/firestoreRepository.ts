@@ -0,0 +1,166 @@
+import {
+  Firestore,
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  Timestamp,
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  deleteField,
+} from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { LogRepository, WaterLogEntry } from './types';
+import { EntryNotFoundError, WriteRejectedError } from './errors';
+import { upgradeLegacyAmount } from './serialization';
+import { ML_PER_CUP } from '../units';
+
+// Firestore caps a single batched write at 500 operations
+const MAX_BATCH_SIZE = 500;
+
+const entriesPath = (userId: string) => `users/${userId}/logEntries`;
+
+// Codes for writes Firestore refuses as such; anything else, like
+// 'unavailable', may succeed on a later attempt
+const REJECTED_CODES = new Set([
+  'permission-denied',
+  'invalid-argument',
+  'failed-precondition',
+  'out-of-range',
+  'already-exists',
+]);
+
+// Run a write, translating Firestore errors into the repository's own so
+// the outbox can tell which writes are worth retrying
+const write = async <T>(task: () => Promise<T>, id?: string): Promise<T> => {
+  try {
+    return await task();
+  } catch (err) {
+    if (err instanceof FirebaseError) {
+      if (err.code === 'not-found' && id) throw new EntryNotFoundError(id);
+      if (REJECTED_CODES.has(err.code)) throw new WriteRejectedError(`${err.code}: ${err.message}`);
+    }
+    throw err;
+  }
+};
+
+/**
+ * Rewrite documents still using the legacy `amountCups` field to store
+ * `amountMl`. Documents are also upgraded on read, so a failed or partial
+ * migration only costs a retry on the next app start.
+ */
+const migrateLegacyAmounts = async (db: Firestore, userId: string) => {
+  const snapshot = await getDocs(
+    query(collection(db, entriesPath(userId)), where('amountCups', '>=', 0))
+  );
+  if (snapshot.empty) return;
+
+  console.log(`Migrating ${snapshot.size} entries from cups to ml for user: ${userId}`);
+  for (let i = 0; i < snapshot.docs.length; i += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const entryDoc of snapshot.docs.slice(i, i + MAX_BATCH_SIZE)) {
+      const { amountCups, amountMl } = entryDoc.data();
+      batch.update(entryDoc.ref, {
+        amountMl: typeof amountMl === 'number' ? amountMl : amountCups * ML_PER_CUP,
+        amountCups: deleteField(),
+      });
+    }
+    await batch.commit();
+  }
+};
+
+/**
+ * Repository backed by the `users/{uid}/logEntries` collection in Firestore.
+ */
+export const createFirestoreRepository = (db: Firestore): LogRepository => {
+  // One migration attempt per user for the lifetime of the repository
+  const migrations = new Map<string, Promise<void>>();
+  const ensureMigrated = (userId: string) => {
+    if (!migrations.has(userId)) {
+      migrations.set(
+        userId,
+        migrateLegacyAmounts(db, userId).catch(err => {
+          console.error('Error migrating legacy entries:', err);
+        })
+      );
+    }
+    return migrations.get(userId);
+  };
+
+  return {
+    listByRange: async (userId, range) => {
+      await ensureMigrated(userId);
+      const q = query(
+        collection(db, entriesPath(userId)),
+        where('timestamp', '>=', Timestamp.fromDate(range.start)),
+        where('timestamp', '<=', Timestamp.fromDate(range.end)),
+        orderBy('timestamp', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...upgradeLegacyAmount(doc.data() as Omit<WaterLogEntry, 'id'>)
+      }));
+    },
+
+    // A pre-assigned id makes the write idempotent: replaying it overwrites
+    // the same document instead of creating a new one
+    add: (userId, { id, ...entry }) => write(async () => {
+      if (id) {
+        await setDoc(doc(db, entriesPath(userId), id), { ...entry, userId });
+        return id;
+      }
+      const docRef = await addDoc(collection(db, entriesPath(userId)), { ...entry, userId });
+      return docRef.id;
+    }),
+
+    update: (userId, id, changes) => write(async () => {
+      await updateDoc(doc(db, entriesPath(userId), id), changes);
+    }, id),
+
+    delete: (userId, id) => write(async () => {
+      await deleteDoc(doc(db, entriesPath(userId), id));
+    }),
+
+    bulkAdd: (userId, entries) => write(async () => {
+      const ids: string[] = [];
+      for (let i = 0; i < entries.length; i += MAX_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        for (const { id, ...entry } of entries.slice(i, i + MAX_BATCH_SIZE)) {
+          const docRef = id
+            ? doc(db, entriesPath(userId), id)
+            : doc(collection(db, entriesPath(userId)));
+          batch.set(docRef, { ...entry, userId });
+          ids.push(docRef.id);
+        }
+        await batch.commit();
+      }
+      return ids;
+    }),
+
+    deleteAll: (userId) => write(async () => {
+      const snapshot = await getDocs(collection(db, entriesPath(userId)));
+      for (let i = 0; i < snapshot.docs.length; i += MAX_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        for (const entryDoc of snapshot.docs.slice(i, i + MAX_BATCH_SIZE)) {
+          batch.delete(entryDoc.ref);
+        }
+        await batch.commit();
+      }
+    }),
+
+    getEarliestEntryDate: async (userId) => {
+      const q = query(collection(db, entriesPath(userId)), orderBy('timestamp', 'asc'), limit(1));
+      const querySnapshot = await getDocs(q);
+      if (querySnapshot.empty) return null;
+      return (querySnapshot.docs[0].data().timestamp as Timestamp).toDate();
+    },
+  };
+};
@@ -0,0 +1,108 @@
+import { db } from '../firebase';
+import { StorageBackend, resolveStorageBackend } from './config';
+import { LogRepository } from './types';
+import { createMemoryRepository } from './memoryRepository';
+import { createAsyncStorageRepository } from './asyncStorageRepository';
+import { createFirestoreRepository } from './firestoreRepository';
+import {
+  SyncStatus,
+  INITIAL_SYNC_STATUS,
+  createSyncingRepository,
+  isSyncingRepository,
+} from './syncingRepository';
+import { subscribeToReconnect } from './connectivity';
+import { SettingsRepository } from './types';
+import {
+  createMemorySettingsRepository,
+  createAsyncStorageSettingsRepository,
+  createFirestoreSettingsRepository,
+} from './settingsRepositories';
+
+export * from './types';
+export * from './config';
+export * from './errors';
+export type { SyncStatus, SyncState } from './syncingRepository';
+export { INITIAL_SYNC_STATUS, isSyncingRepository } from './syncingRepository';
+
+const syncStatusListeners = new Set<(status: SyncStatus) => void>();
+
+// Listen to outbox progress of the active repository
+export const onSyncStatusChange = (listener: (status: SyncStatus) => void) => {
+  syncStatusListeners.add(listener);
+  return () => {
+    syncStatusListeners.delete(listener);
+  };
+};
+
+const notifySyncStatus = (status: SyncStatus) => {
+  syncStatusListeners.forEach(listener => listener(status));
+};
+
+// Build a repository for the given backend
+export const createLogRepository = (backend: StorageBackend): LogRepository => {
+  switch (backend) {
+    case 'memory':
+      return createMemoryRepository();
+    case 'local':
+      return createAsyncStorageRepository();
+    case 'firestore':
+      // Writes go through a durable outbox so they survive being offline
+      return createSyncingRepository(createFirestoreRepository(db), {
+        onStatusChange: notifySyncStatus,
+        subscribeToConnectivity: subscribeToReconnect,
+        settingsRemote: createFirestoreSettingsRepository(db),
+      });
+  }
+};
+
+// Build the settings repository that lives next to a backend's entries
+export const createSettingsRepository = (backend: StorageBackend): SettingsRepository => {
+  switch (backend) {
+    case 'memory':
+      return createMemorySettingsRepository();
+    case 'local':
+      return createAsyncStorageSettingsRepository();
+    case 'firestore':
+      return createFirestoreSettingsRepository(db);
+  }
+};
+
+let activeBackend: StorageBackend = resolveStorageBackend();
+let activeRepository: LogRepository | null = null;
+let activeSettingsRepository: SettingsRepository | null = null;
+
+// Repository used by the log store, created lazily from the configured backend
+export const getLogRepository = (): LogRepository => {
+  if (!activeRepository) {
+    activeRepository = createLogRepository(activeBackend);
+  }
+  return activeRepository;
+};
+
+// Settings repository for the active backend. Behind an outbox, settings
+// saves queue in it next to the entry writes.
+export const getSettingsRepository = (): SettingsRepository => {
+  if (!activeSettingsRepository) {
+    const repository = getLogRepository();
+    activeSettingsRepository = isSyncingRepository(repository)
+      ? repository.settings
+      : createSettingsRepository(activeBackend);
+  }
+  return activeSettingsRepository;
+};
+
+export const getStorageBackend = () => activeBackend;
+
+/**
+ * Swap the active repository. Pass a backend name to use one of the built-in
+ * implementations, or a repository instance to plug in a custom one.
+ */
+export const setLogRepository = (backend: StorageBackend, repository?: LogRepository) => {
+  if (activeRepository && isSyncingRepository(activeRepository)) {
+    activeRepository.dispose();
+    notifySyncStatus(INITIAL_SYNC_STATUS);
+  }
+  activeBackend = backend;
+  activeRepository = repository ?? createLogRepository(backend);
+  activeSettingsRepository = null;
+};
@@ -0,0 +1,62 @@
+import { LogRepository, WaterLogEntry } from './types';
+import { createEntryId, findEarliestDate, isInRange, sortNewestFirst } from './utils';
+import { EntryNotFoundError } from './errors';
+
+/**
+ * Volatile repository that keeps entries in a Map for the lifetime of the
+ * JS context. Useful for tests and throwaway demo sessions.
+ */
+export const createMemoryRepository = (): LogRepository => {
+  const storage = new Map<string, WaterLogEntry>();
+
+  const getOwnedEntry = (userId: string, id: string) => {
+    const entry = storage.get(id);
+    if (!entry || entry.userId !== userId) {
+      throw new EntryNotFoundError(id);
+    }
+    return entry;
+  };
+
+  return {
+    listByRange: async (userId, range) => {
+      const entries = Array.from(storage.values()).filter(entry =>
+        entry.userId === userId && isInRange(entry, range)
+      );
+      return sortNewestFirst(entries);
+    },
+
+    add: async (userId, entry) => {
+      const id = entry.id ?? createEntryId('mock');
+      storage.set(id, { ...entry, userId, id });
+      return id;
+    },
+
+    update: async (userId, id, changes) => {
+      const existing = getOwnedEntry(userId, id);
+      storage.set(id, { ...existing, ...changes });
+    },
+
+    delete: async (userId, id) => {
+      getOwnedEntry(userId, id);
+      storage.delete(id);
+    },
+
+    bulkAdd: async (userId, entries) => {
+      return entries.map(entry => {
+        const id = entry.id ?? createEntryId('mock');
+        storage.set(id, { ...entry, userId, id });
+        return id;
+      });
+    },
+
+    deleteAll: async (userId) => {
+      for (const [id, entry] of storage) {
+        if (entry.userId === userId) storage.delete(id);
+      }
+    },
+
+    getEarliestEntryDate: async (userId) => {
+      return findEarliestDate(Array.from(storage.values()).filter(entry => entry.userId === userId));
+    },
+  };
+};
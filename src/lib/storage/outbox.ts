@@ -0,0 +1,103 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp } from 'firebase/firestore';
+import { LogEntryChanges, NewLogEntry, UserSettings } from './types';
+import { upgradeLegacyAmount } from './serialization';
+
+const OUTBOX_KEY = 'waterlogger:outbox';
+const FAILED_KEY = 'waterlogger:outbox:failed';
+const OUTBOX_VERSION = 2;
+
+// Write waiting to be applied to the remote backend
+export type OutboxMutation =
+  | { type: 'add'; userId: string; entry: NewLogEntry & { id: string } }
+  | { type: 'bulkAdd'; userId: string; entries: (NewLogEntry & { id: string })[] }
+  | { type: 'update'; userId: string; id: string; changes: LogEntryChanges }
+  | { type: 'delete'; userId: string; id: string }
+  | { type: 'deleteAll'; userId: string }
+  | { type: 'saveSettings'; userId: string; settings: UserSettings };
+
+export interface OutboxItem {
+  // Unique per mutation; adds reuse the pre-assigned entry id so a replay
+  // after a lost response overwrites instead of duplicating
+  idempotencyKey: string;
+  mutation: OutboxMutation;
+  attempts: number;
+  enqueuedAt: number;
+}
+
+// Timestamps are tagged so they can be revived as Timestamp instances
+const TIMESTAMP_TAG = '__timestamp';
+
+function replacer(this: Record<string, unknown>, key: string, value: unknown) {
+  const raw = this[key];
+  if (raw instanceof Timestamp) {
+    return { [TIMESTAMP_TAG]: [raw.seconds, raw.nanoseconds] };
+  }
+  return value;
+}
+
+const reviver = (_key: string, value: unknown) => {
+  if (value && typeof value === 'object' && TIMESTAMP_TAG in value) {
+    const [seconds, nanoseconds] = (value as Record<string, [number, number]>)[TIMESTAMP_TAG];
+    return new Timestamp(seconds, nanoseconds);
+  }
+  return value;
+};
+
+// v1 queued entries and changes with `amountCups` instead of `amountMl`
+const upgradeV1Mutation = (mutation: OutboxMutation): OutboxMutation => {
+  switch (mutation.type) {
+    case 'add':
+      return { ...mutation, entry: upgradeLegacyAmount(mutation.entry) };
+    case 'bulkAdd':
+      return { ...mutation, entries: mutation.entries.map(upgradeLegacyAmount) };
+    case 'update':
+      return { ...mutation, changes: upgradeLegacyAmount(mutation.changes) };
+    default:
+      return mutation;
+  }
+};
+
+export const loadOutbox = async (): Promise<OutboxItem[]> => {
+  const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+  if (!raw) return [];
+
+  const parsed = JSON.parse(raw, reviver);
+  if (!Array.isArray(parsed.items)) {
+    console.warn(`Discarding outbox with unsupported version ${parsed.version}`);
+    return [];
+  }
+  if (parsed.version === 1) {
+    return (parsed.items as OutboxItem[]).map(item => ({ ...item, mutation: upgradeV1Mutation(item.mutation) }));
+  }
+  if (parsed.version !== OUTBOX_VERSION) {
+    console.warn(`Discarding outbox with unsupported version ${parsed.version}`);
+    return [];
+  }
+  return parsed.items;
+};
+
+export const saveOutbox = (items: OutboxItem[]) =>
+  AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify({ version: OUTBOX_VERSION, items }, replacer));
+
+// Write the remote backend refused for good. Kept aside, so it neither blocks
+// the writes queued after it nor disappears without a trace.
+export interface FailedOutboxItem extends OutboxItem {
+  error: string;
+  failedAt: number;
+}
+
+export const loadFailedOutbox = async (): Promise<FailedOutboxItem[]> => {
+  const raw = await AsyncStorage.getItem(FAILED_KEY);
+  if (!raw) return [];
+
+  const parsed = JSON.parse(raw, reviver);
+  if (parsed.version !== OUTBOX_VERSION || !Array.isArray(parsed.items)) {
+    console.warn(`Discarding failed outbox with unsupported version ${parsed.version}`);
+    return [];
+  }
+  return parsed.items;
+};
+
+export const saveFailedOutbox = (items: FailedOutboxItem[]) =>
+  AsyncStorage.setItem(FAILED_KEY, JSON.stringify({ version: OUTBOX_VERSION, items }, replacer));
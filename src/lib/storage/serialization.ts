@@ -0,0 +1,98 @@
+import { Timestamp } from 'firebase/firestore';
+import { WaterLogEntry } from './types';
+import { ML_PER_CUP } from '../units';
+
+/**
+ * Versioned on-disk format for entries kept outside Firestore.
+ *
+ * Bump `SERIALIZATION_VERSION` whenever the stored shape changes and add a
+ * migration from the previous version to `migrations`.
+ */
+export const SERIALIZATION_VERSION = 2;
+
+// Timestamp fields are stored as plain seconds/nanoseconds pairs
+interface SerializedTimestamp {
+  seconds: number;
+  nanoseconds: number;
+}
+
+interface SerializedEntry extends Omit<WaterLogEntry, 'timestamp'> {
+  id: string;
+  timestamp: SerializedTimestamp;
+}
+
+export interface SerializedDocument {
+  version: number;
+  entries: SerializedEntry[];
+}
+
+// Entry of any stored version, before migration
+type RawEntry = Record<string, unknown>;
+
+// Replace the pre-v2 `amountCups` field with canonical millilitres. Shared
+// with the Firestore and outbox migrations, which see the same legacy shape.
+export const upgradeLegacyAmount = <T extends object>(entry: T): T => {
+  const { amountCups, ...rest } = entry as T & { amountCups?: unknown; amountMl?: unknown };
+  if (typeof amountCups !== 'number') return entry;
+  if (typeof rest.amountMl === 'number') return rest as T;
+  return { ...rest, amountMl: amountCups * ML_PER_CUP } as T;
+};
+
+// Migrations keyed by the version they upgrade *from*
+const migrations: Record<number, (entries: RawEntry[]) => RawEntry[]> = {
+  // v0 was a bare array of entries with the same shape as v1
+  0: entries => entries,
+  // v1 stored volumes as `amountCups`
+  1: entries => entries.map(upgradeLegacyAmount),
+};
+
+const serializeTimestamp = (timestamp: Timestamp): SerializedTimestamp => ({
+  seconds: timestamp.seconds,
+  nanoseconds: timestamp.nanoseconds,
+});
+
+const deserializeTimestamp = (value: SerializedTimestamp) =>
+  new Timestamp(value.seconds, value.nanoseconds);
+
+// Plain-object form of the stored format, for embedding in other documents
+export const toSerializedDocument = (entries: WaterLogEntry[]): SerializedDocument => ({
+  version: SERIALIZATION_VERSION,
+  entries: entries.map(entry => ({
+    ...entry,
+    id: entry.id as string,
+    timestamp: serializeTimestamp(entry.timestamp),
+  })),
+});
+
+// Accepts any stored version (or a bare v0 array) and migrates it
+export const fromSerializedDocument = (parsed: unknown): WaterLogEntry[] => {
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Unrecognised stored entries format');
+  }
+  const document = parsed as SerializedDocument;
+  let version: number = Array.isArray(parsed) ? 0 : document.version;
+  let entries: RawEntry[] = Array.isArray(parsed) ? parsed : (document.entries as unknown as RawEntry[]);
+
+  if (typeof version !== 'number' || !Array.isArray(entries)) {
+    throw new Error('Unrecognised stored entries format');
+  }
+  if (version > SERIALIZATION_VERSION) {
+    throw new Error(`Stored entries use version ${version}, newer than supported ${SERIALIZATION_VERSION}`);
+  }
+
+  while (version < SERIALIZATION_VERSION) {
+    entries = migrations[version](entries);
+    version += 1;
+  }
+
+  return (entries as unknown as SerializedEntry[]).map(entry => ({
+    ...entry,
+    timestamp: deserializeTimestamp(entry.timestamp),
+  }));
+};
+
+export const serializeEntries = (entries: WaterLogEntry[]): string =>
+  JSON.stringify(toSerializedDocument(entries));
+
+export const deserializeEntries = (raw: string): WaterLogEntry[] =>
+  fromSerializedDocument(JSON.parse(raw));
@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Firestore, doc, getDoc, setDoc } from 'firebase/firestore';
+import { SettingsRepository, UserSettings } from './types';
+
+// Bump when the stored settings shape changes incompatibly
+const SETTINGS_VERSION = 1;
+
+// Settings kept in a Map for the lifetime of the JS context
+export const createMemorySettingsRepository = (): SettingsRepository => {
+  const storage = new Map<string, UserSettings>();
+
+  return {
+    load: async (userId) => storage.get(userId) ?? null,
+    save: async (userId, settings) => {
+      storage.set(userId, { ...settings });
+    },
+  };
+};
+
+const settingsKey = (userId: string) => `waterlogger:settings:${userId}`;
+
+// Settings kept on the device next to the local log entries
+export const createAsyncStorageSettingsRepository = (): SettingsRepository => ({
+  load: async (userId) => {
+    const raw = await AsyncStorage.getItem(settingsKey(userId));
+    if (!raw) return null;
+
+    const parsed = JSON.parse(raw);
+    if (parsed.version !== SETTINGS_VERSION) {
+      console.warn(`Ignoring stored settings with unsupported version ${parsed.version}`);
+      return null;
+    }
+    return parsed.settings;
+  },
+
+  save: async (userId, settings) => {
+    await AsyncStorage.setItem(
+      settingsKey(userId),
+      JSON.stringify({ version: SETTINGS_VERSION, settings })
+    );
+  },
+});
+
+// Settings kept in the `users/{uid}/settings/preferences` document
+export const createFirestoreSettingsRepository = (db: Firestore): SettingsRepository => ({
+  load: async (userId) => {
+    const snapshot = await getDoc(doc(db, `users/${userId}/settings/preferences`));
+    return snapshot.exists() ? (snapshot.data() as Partial<UserSettings>) : null;
+  },
+
+  save: async (userId, settings) => {
+    await setDoc(doc(db, `users/${userId}/settings/preferences`), settings);
+  },
+});
@@ -0,0 +1,339 @@
+import { LogRepository, SettingsRepository, UserSettings, WaterLogEntry, DateRange } from './types';
+import { createEntryId, findEarliestDate, isInRange, sortNewestFirst, upsertEntry } from './utils';
+import { EntryNotFoundError, WriteRejectedError } from './errors';
+import {
+  FailedOutboxItem,
+  OutboxItem,
+  OutboxMutation,
+  loadFailedOutbox,
+  loadOutbox,
+  saveFailedOutbox,
+  saveOutbox,
+} from './outbox';
+
+// Where the outbox stands relative to the remote backend
+export type SyncState = 'idle' | 'syncing' | 'pending' | 'offline';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingCount: number;
+  // Writes the remote refused for good and set aside
+  failedCount: number;
+  lastError: string | null;
+  nextRetryAt: number | null;
+}
+
+export const INITIAL_SYNC_STATUS: SyncStatus = {
+  state: 'idle',
+  pendingCount: 0,
+  failedCount: 0,
+  lastError: null,
+  nextRetryAt: null,
+};
+
+export interface SyncOptions {
+  onStatusChange?: (status: SyncStatus) => void;
+  // Register a callback fired when the device is likely back online
+  subscribeToConnectivity?: (onReconnect: () => void) => () => void;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  // Attempts before a write the remote keeps refusing is set aside
+  maxRejectedAttempts?: number;
+  // Remote settings storage; settings saves then queue in the same outbox
+  settingsRemote?: SettingsRepository;
+}
+
+export interface SyncingLogRepository extends LogRepository {
+  // Settings saved through the outbox, so they behave like entries offline
+  settings: SettingsRepository;
+  // Replay the outbox now, ignoring any pending backoff
+  sync: () => Promise<void>;
+  dispose: () => void;
+}
+
+export const isSyncingRepository = (repository: LogRepository): repository is SyncingLogRepository =>
+  'sync' in repository;
+
+// Exponential backoff, capped at maxDelayMs
+export const getRetryDelay = (attempts: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.min(baseDelayMs * 2 ** Math.max(attempts - 1, 0), maxDelayMs);
+
+// Apply queued writes on top of entries read from the remote backend
+const applyPending = (entries: WaterLogEntry[], items: OutboxItem[], userId: string, range?: DateRange) => {
+  const result = [...entries];
+
+  for (const { mutation } of items) {
+    if (mutation.userId !== userId) continue;
+
+    switch (mutation.type) {
+      case 'add':
+        upsertEntry(result, { ...mutation.entry, userId });
+        break;
+      case 'bulkAdd':
+        mutation.entries.forEach(entry => upsertEntry(result, { ...entry, userId }));
+        break;
+      case 'update': {
+        const index = result.findIndex(e => e.id === mutation.id);
+        if (index !== -1) result[index] = { ...result[index], ...mutation.changes };
+        break;
+      }
+      case 'delete': {
+        const index = result.findIndex(e => e.id === mutation.id);
+        if (index !== -1) result.splice(index, 1);
+        break;
+      }
+      case 'deleteAll':
+        result.length = 0;
+        break;
+    }
+  }
+
+  return sortNewestFirst(range ? result.filter(entry => isInRange(entry, range)) : result);
+};
+
+/**
+ * Wrap a remote repository with a durable outbox.
+ *
+ * Writes resolve as soon as they are queued on the device, then are replayed
+ * against the remote in order. Failed replays are retried with exponential
+ * backoff, and immediately when connectivity comes back. A write the remote
+ * refuses outright is retried a few times, then moved to a failed list so
+ * the writes queued after it still go through.
+ */
+export const createSyncingRepository = (
+  remote: LogRepository,
+  {
+    onStatusChange,
+    subscribeToConnectivity,
+    retryBaseDelayMs = 2000,
+    retryMaxDelayMs = 5 * 60 * 1000,
+    maxRejectedAttempts = 3,
+    settingsRemote,
+  }: SyncOptions = {}
+): SyncingLogRepository => {
+  let items: OutboxItem[] = [];
+  let failed: FailedOutboxItem[] = [];
+  let status = INITIAL_SYNC_STATUS;
+  let inFlight: Promise<void> | null = null;
+  let rerunRequested = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const report = (changes: Partial<SyncStatus>) => {
+    status = { ...status, ...changes, pendingCount: items.length, failedCount: failed.length };
+    onStatusChange?.(status);
+  };
+
+  // Outbox changes are persisted one at a time, in order
+  let queue: Promise<unknown> = Promise.all([loadOutbox(), loadFailedOutbox()])
+    .then(([loaded, loadedFailed]) => {
+      items = loaded;
+      failed = loadedFailed;
+      if (items.length > 0) report({ state: 'pending' });
+      else if (failed.length > 0) report({});
+    })
+    .catch(err => console.error('Error loading outbox:', err));
+
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const apply = async (mutation: OutboxMutation) => {
+    switch (mutation.type) {
+      case 'add':
+        await remote.add(mutation.userId, mutation.entry);
+        break;
+      case 'bulkAdd':
+        await remote.bulkAdd(mutation.userId, mutation.entries);
+        break;
+      case 'update':
+        await remote.update(mutation.userId, mutation.id, mutation.changes);
+        break;
+      case 'delete':
+        await remote.delete(mutation.userId, mutation.id);
+        break;
+      case 'deleteAll':
+        await remote.deleteAll(mutation.userId);
+        break;
+      case 'saveSettings':
+        if (!settingsRemote) throw new WriteRejectedError('No settings backend to save to');
+        await settingsRemote.save(mutation.userId, mutation.settings);
+        break;
+    }
+  };
+
+  // Latest settings still waiting to be saved for the user, if any
+  const pendingSettings = (userId: string) => {
+    let settings: UserSettings | null = null;
+    for (const { mutation } of items) {
+      if (mutation.type === 'saveSettings' && mutation.userId === userId) settings = mutation.settings;
+    }
+    return settings;
+  };
+
+  const scheduleRetry = (delay: number) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void sync();
+    }, delay);
+  };
+
+  const drain = async () => {
+    await queue;
+    report({ state: 'syncing' });
+
+    while (items.length > 0) {
+      const item = items[0];
+      try {
+        await apply(item.mutation);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        // The entry is already gone remotely: a replayed delete succeeded
+        // earlier, or an update raced with a delete from another device
+        if (err instanceof EntryNotFoundError) {
+          console.warn(`Dropping outbox mutation ${item.idempotencyKey}:`, err);
+        } else {
+          await exclusive(() => {
+            item.attempts += 1;
+            return saveOutbox(items);
+          });
+          if (!(err instanceof WriteRejectedError) || item.attempts < maxRejectedAttempts) {
+            const delay = getRetryDelay(item.attempts, retryBaseDelayMs, retryMaxDelayMs);
+            scheduleRetry(delay);
+            report({ state: 'offline', lastError: message, nextRetryAt: Date.now() + delay });
+            return;
+          }
+          console.error(`Setting aside outbox mutation ${item.idempotencyKey}:`, err);
+          await exclusive(() => {
+            failed = [...failed, { ...item, error: message, failedAt: Date.now() }];
+            return saveFailedOutbox(failed);
+          });
+        }
+      }
+
+      await exclusive(() => {
+        items = items.filter(i => i.idempotencyKey !== item.idempotencyKey);
+        return saveOutbox(items);
+      });
+    }
+
+    // Writes set aside stay reported after the rest has synced
+    report({ state: 'idle', lastError: failed[failed.length - 1]?.error ?? null, nextRetryAt: null });
+  };
+
+  const sync = () => {
+    // A drain is already running: make it go round once more when it ends,
+    // so mutations queued or connectivity regained meanwhile are not missed
+    if (inFlight) {
+      rerunRequested = true;
+      return inFlight;
+    }
+
+    inFlight = (async () => {
+      do {
+        rerunRequested = false;
+        if (retryTimer) {
+          clearTimeout(retryTimer);
+          retryTimer = null;
+        }
+        await drain();
+      } while (rerunRequested);
+    })()
+      .catch(err => console.error('Error syncing outbox:', err))
+      .finally(() => {
+        inFlight = null;
+      });
+    return inFlight;
+  };
+
+  // `supersedes` picks queued mutations the new one makes pointless
+  const enqueue = async (
+    mutation: OutboxMutation,
+    idempotencyKey: string,
+    supersedes?: (queued: OutboxMutation) => boolean
+  ) => {
+    await exclusive(() => {
+      const kept = supersedes ? items.filter(item => !supersedes(item.mutation)) : items;
+      items = [...kept, { idempotencyKey, mutation, attempts: 0, enqueuedAt: Date.now() }];
+      return saveOutbox(items);
+    });
+    if (!inFlight) report({ state: 'pending' });
+    void sync();
+  };
+
+  const unsubscribe = subscribeToConnectivity?.(() => void sync());
+  void sync();
+
+  return {
+    listByRange: async (userId, range) => {
+      const entries = await remote.listByRange(userId, range);
+      await queue;
+      return applyPending(entries, items, userId, range);
+    },
+
+    add: async (userId, entry) => {
+      const id = entry.id ?? createEntryId('entry');
+      await enqueue({ type: 'add', userId, entry: { ...entry, id } }, id);
+      return id;
+    },
+
+    update: async (userId, id, changes) => {
+      await enqueue({ type: 'update', userId, id, changes }, createEntryId('update'));
+    },
+
+    delete: async (userId, id) => {
+      await enqueue({ type: 'delete', userId, id }, createEntryId('delete'));
+    },
+
+    bulkAdd: async (userId, entries) => {
+      const withIds = entries.map(entry => ({ ...entry, id: entry.id ?? createEntryId('entry') }));
+      await enqueue({ type: 'bulkAdd', userId, entries: withIds }, createEntryId('bulk'));
+      return withIds.map(entry => entry.id);
+    },
+
+    deleteAll: async (userId) => {
+      await enqueue({ type: 'deleteAll', userId }, createEntryId('deleteAll'));
+    },
+
+    getEarliestEntryDate: async (userId) => {
+      let remoteEarliest = await remote.getEarliestEntryDate(userId);
+      await queue;
+      // Whatever the remote still holds is about to be wiped
+      if (items.some(({ mutation }) => mutation.type === 'deleteAll' && mutation.userId === userId)) {
+        remoteEarliest = null;
+      }
+      const pending = applyPending([], items, userId);
+      const candidates = [remoteEarliest, findEarliestDate(pending)].filter((d): d is Date => d !== null);
+      return candidates.length ? new Date(Math.min(...candidates.map(d => d.getTime()))) : null;
+    },
+
+    settings: {
+      // Settings waiting to sync are newer than anything the remote holds
+      load: async (userId) => {
+        await queue;
+        const pending = pendingSettings(userId);
+        if (pending) return pending;
+        if (!settingsRemote) return null;
+        return settingsRemote.load(userId);
+      },
+
+      // Each save holds the full settings, so it replaces any still queued
+      save: async (userId, settings) => {
+        await enqueue(
+          { type: 'saveSettings', userId, settings },
+          createEntryId('settings'),
+          queued => queued.type === 'saveSettings' && queued.userId === userId
+        );
+      },
+    },
+
+    sync,
+
+    dispose: () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      unsubscribe?.();
+    },
+  };
+};
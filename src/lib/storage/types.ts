@@ -0,0 +1,113 @@
+import { Timestamp } from 'firebase/firestore';
+
+// Define the water log entry type
+export interface WaterLogEntry {
+  id?: string;
+  userId: string;
+  // Canonical volume in millilitres; convert with `src/lib/units` for display
+  amountMl: number;
+  // What was drunk; entries from before beverage types existed are water
+  beverage?: BeverageType;
+  fatigue: number; // 1-5 scale
+  timestamp: Timestamp;
+  // UTC offset (minutes east) of the zone the entry was logged in. Missing on
+  // entries logged before zones were recorded.
+  tzOffsetMinutes?: number;
+}
+
+// Inclusive time window used to query entries
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+// Entry as handed to a repository. Callers may pre-assign the id, in which
+// case writing the same entry twice must not create a duplicate.
+export type NewLogEntry = Omit<WaterLogEntry, 'id'> & { id?: string };
+
+// Fields that may be changed on an existing entry
+export type LogEntryChanges = Partial<Omit<WaterLogEntry, 'id' | 'userId'>>;
+
+export type BeverageType =
+  | 'water'
+  | 'tea'
+  | 'coffee'
+  | 'juice'
+  | 'milk'
+  | 'electrolyte'
+  | 'alcohol'
+  | 'custom';
+
+// How a beverage counts towards hydration
+export interface BeverageProfile {
+  // Effective hydration per ml drunk; water is 1
+  hydrationFactor: number;
+  caffeineMgPer100Ml: number;
+  // Display name, only used for the 'custom' type
+  name?: string;
+}
+
+// Unit used to show and enter volumes
+export type VolumeUnit = 'cups' | 'ml' | 'floz';
+
+// Which zone's wall clock decides the day and hour an entry falls on:
+// the device's current zone, or the zone it was logged in
+export type ZoneView = 'current' | 'logged';
+
+// 'system' follows the device appearance
+export type ThemeMode = 'system' | 'light' | 'dark';
+
+// Hours are 0-23 in local time; reminders fire from `startHour` up to and
+// including `endHour`, every `intervalMinutes`
+export interface ReminderSchedule {
+  enabled: boolean;
+  startHour: number;
+  endHour: number;
+  intervalMinutes: number;
+}
+
+// Per-user preferences, stored in the same backend as the log entries
+export interface UserSettings {
+  dailyGoalMl: number;
+  volumeUnit: VolumeUnit;
+  themeMode: ThemeMode;
+  // 0 = Sunday ... 6 = Saturday
+  weekStartDay: number;
+  // Hour (0-23) at which a new logging day begins
+  dayStartHour: number;
+  // Hours (0-23) the user is usually up from and goes to bed at; the day
+  // view's ideal pace spreads the goal over this stretch
+  wakeHour: number;
+  bedHour: number;
+  zoneView: ZoneView;
+  reminders: ReminderSchedule;
+  beverages: Record<BeverageType, BeverageProfile>;
+}
+
+/**
+ * Storage for a user's settings. `load` resolves to null when nothing has
+ * been saved yet, or to whatever subset of fields was saved previously.
+ */
+export interface SettingsRepository {
+  load: (userId: string) => Promise<Partial<UserSettings> | null>;
+  save: (userId: string, settings: UserSettings) => Promise<void>;
+}
+
+/**
+ * Storage backend for water log entries.
+ *
+ * Implementations return entries sorted by timestamp, newest first. New
+ * backends only need to implement this interface and be registered in
+ * `createLogRepository`; the zustand store never talks to storage directly.
+ */
+export interface LogRepository {
+  listByRange: (userId: string, range: DateRange) => Promise<WaterLogEntry[]>;
+  add: (userId: string, entry: NewLogEntry) => Promise<string>;
+  update: (userId: string, id: string, changes: LogEntryChanges) => Promise<void>;
+  delete: (userId: string, id: string) => Promise<void>;
+  bulkAdd: (userId: string, entries: NewLogEntry[]) => Promise<string[]>;
+  // Remove every entry of the user in one go
+  deleteAll: (userId: string) => Promise<void>;
+  // Time of the oldest entry, or null when the user has no entries
+  getEarliestEntryDate: (userId: string) => Promise<Date | null>;
+}
@@ -0,0 +1,37 @@
+import { WaterLogEntry, DateRange } from './types';
+
+// Generate an id for entries stored outside Firestore
+export const createEntryId = (prefix = 'local') =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+// Check whether an entry falls inside an inclusive date range
+export const isInRange = (entry: WaterLogEntry, range: DateRange) => {
+  const time = entry.timestamp.toMillis();
+  return time >= range.start.getTime() && time <= range.end.getTime();
+};
+
+// Insert an entry, replacing any existing entry with the same id
+export const upsertEntry = (entries: WaterLogEntry[], entry: WaterLogEntry) => {
+  const index = entries.findIndex(e => e.id === entry.id);
+  if (index === -1) {
+    entries.push(entry);
+  } else {
+    entries[index] = entry;
+  }
+};
+
+// Time of the oldest entry in a list, or null for an empty list
+export const findEarliestDate = (entries: WaterLogEntry[]): Date | null => {
+  if (entries.length === 0) return null;
+  // Reduced rather than spread into Math.min, which overflows the call
+  // stack for long histories
+  const earliest = entries.reduce(
+    (min, entry) => Math.min(min, entry.timestamp.toMillis()),
+    Infinity
+  );
+  return new Date(earliest);
+};
+
+// Sort entries by timestamp, newest first
+export const sortNewestFirst = (entries: WaterLogEntry[]) =>
+  entries.sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis());
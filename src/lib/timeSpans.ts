@@ -0,0 +1,46 @@
+// Windows the chart can show. Add a span here and it is picked up by the
+// range maths, the chart bucketing and the home screen buttons.
+export type TimeSpan = 'day' | 'week' | 'twoweeks' | 'month' | 'quarter' | 'year' | 'all';
+
+// Size of one bar on the chart
+export type BucketSize = 'hour' | 'day' | 'week' | 'month';
+
+// Calendar unit a span is measured in
+export type SpanUnit = Exclude<BucketSize, 'hour'>;
+
+export interface TimeSpanDefinition {
+  // Button label
+  label: string;
+  unit: SpanUnit;
+  // Number of units shown, ending with the one containing the reference
+  // date. `null` reaches back to the first entry.
+  length: number | null;
+}
+
+export const TIME_SPANS: Record<TimeSpan, TimeSpanDefinition> = {
+  day: { label: 'Day', unit: 'day', length: 1 },
+  week: { label: 'Week', unit: 'week', length: 1 },
+  twoweeks: { label: '2 Weeks', unit: 'week', length: 2 },
+  month: { label: 'Month', unit: 'day', length: 30 },
+  quarter: { label: 'Quarter', unit: 'week', length: 13 },
+  year: { label: 'Year', unit: 'month', length: 12 },
+  all: { label: 'All', unit: 'day', length: null },
+};
+
+// Display order of the span buttons
+export const TIME_SPAN_ORDER = Object.keys(TIME_SPANS) as TimeSpan[];
+
+// Most bars of one size before switching to the next larger size
+const MAX_DAILY_BARS = 31;
+const MAX_WEEKLY_BARS = 26;
+
+/**
+ * Bar size for a window `days` long: hours for a single day, then days,
+ * weeks or months so the chart never has more bars than stay readable.
+ */
+export const getBucketSize = (days: number): BucketSize => {
+  if (days <= 1) return 'hour';
+  if (days <= MAX_DAILY_BARS) return 'day';
+  if (days <= MAX_WEEKLY_BARS * 7) return 'week';
+  return 'month';
+};
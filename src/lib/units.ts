@@ -0,0 +1,54 @@
+import { VolumeUnit } from './storage/types';
+
+// Volumes are stored in millilitres; these convert to US customary units
+export const ML_PER_CUP = 236.588;
+export const ML_PER_FL_OZ = 29.5735;
+
+const ML_PER_UNIT: Record<VolumeUnit, number> = {
+  ml: 1,
+  cups: ML_PER_CUP,
+  floz: ML_PER_FL_OZ,
+};
+
+// Short label shown next to a number, e.g. "250 ml"
+export const UNIT_LABELS: Record<VolumeUnit, string> = {
+  ml: 'ml',
+  cups: 'cups',
+  floz: 'fl oz',
+};
+
+// Quick-pick amounts offered by the entry form, in the unit itself
+export const UNIT_PRESETS: Record<VolumeUnit, number[]> = {
+  ml: [150, 250, 350, 500],
+  cups: [0.5, 1, 1.5, 2],
+  floz: [4, 8, 12, 16],
+};
+
+// Step used by the daily goal stepper, in the unit itself
+export const GOAL_STEPS: Record<VolumeUnit, number> = {
+  ml: 100,
+  cups: 0.5,
+  floz: 4,
+};
+
+// Decimal places worth showing in each unit
+const UNIT_DECIMALS: Record<VolumeUnit, number> = {
+  ml: 0,
+  cups: 1,
+  floz: 1,
+};
+
+export const toMl = (amount: number, unit: VolumeUnit): number => amount * ML_PER_UNIT[unit];
+
+export const fromMl = (ml: number, unit: VolumeUnit): number => ml / ML_PER_UNIT[unit];
+
+// Convert and round to the precision shown for the unit
+export const roundForUnit = (ml: number, unit: VolumeUnit): number =>
+  +fromMl(ml, unit).toFixed(UNIT_DECIMALS[unit]);
+
+// Format an amount already in `unit`, e.g. "1 cup" or "250 ml"
+export const formatAmount = (amount: number, unit: VolumeUnit): string =>
+  `${amount} ${unit === 'cups' && amount === 1 ? 'cup' : UNIT_LABELS[unit]}`;
+
+export const formatVolume = (ml: number, unit: VolumeUnit): string =>
+  formatAmount(roundForUnit(ml, unit), unit);
@@ -1,31 +1,39 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useLogStore, WaterLogEntry } from './logStore';
-import { auth } from './firebase';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { useLogStore, EntryInput, getCurrentUserId, WaterLogEntry } from './logStore';
+import { DateRange } from './storage';
+import { getPresetRange } from './dateRanges';
+import { TimeSpan } from './timeSpans';
+import { useSettingsStore } from './settingsStore';
 
-// Type for entry input without id, userId, and timestamp
-export type EntryInput = Omit<WaterLogEntry, 'id' | 'userId' | 'timestamp'>;
+export type { EntryInput } from './logStore';
 
 /**
- * Custom hook to access and manipulate water log entries
+ * Date of the user's oldest entry, used to limit how far back the UI can page
+ * and where the all-time window starts. `null` while loading or with no data.
  */
-export function useEntries(timespan: 'day' | 'week' | 'twoweeks' | 'month' = 'week') {
-  const queryClient = useQueryClient();
-  const store = useLogStore();
-  const userId = auth.currentUser?.uid;
+export function useEarliestEntryDate(): Date | null {
+  const fetchEarliestEntryDate = useLogStore((state) => state.fetchEarliestEntryDate);
+  const userId = getCurrentUserId();
 
-  // Query for fetching entries
-  const entriesQuery = useQuery({
-    queryKey: ['entries', timespan, userId],
-    queryFn: () => {
-      if (!userId) {
-        throw new Error('User not authenticated');
-      }
-      return store.fetchEntries(timespan).then(() => store.entries);
-    },
+  // Shares the 'entries' prefix so mutations invalidate it too
+  const earliestQuery = useQuery({
+    queryKey: ['entries', userId, 'earliest'],
+    queryFn: () => fetchEarliestEntryDate(),
     enabled: !!userId,
-    staleTime: 1000 * 60 * 5, // 5 minutes
+    staleTime: 1000 * 60 * 5,
   });
 
+  return earliestQuery.data ?? null;
+}
+
+/**
+ * Writes to the log without loading any entries, for screens that only add
+ * or edit. Every write refreshes all loaded windows.
+ */
+export function useEntryMutations() {
+  const queryClient = useQueryClient();
+  const store = useLogStore();
+
   // Mutation for adding a new entry
   const addEntryMutation = useMutation({
     mutationFn: (entry: EntryInput) => store.addEntry(entry),
@@ -51,6 +59,14 @@ export function useEntries(timespan: 'day' | 'week' | 'twoweeks' | 'month' = 'we
     },
   });
 
+  // Mutation for undoing a delete
+  const restoreEntryMutation = useMutation({
+    mutationFn: (entry: WaterLogEntry) => store.restoreEntry(entry),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['entries'] });
+    },
+  });
+
   // Mutation for generating seed data
   const seedDataMutation = useMutation({
     mutationFn: () => store.generateSeedData(),
@@ -60,21 +76,64 @@ export function useEntries(timespan: 'day' | 'week' | 'twoweeks' | 'month' = 'we
   });
 
   return {
-    // Data and loading states
-    entries: entriesQuery.data || [],
-    isLoading: entriesQuery.isLoading,
-    error: entriesQuery.error || store.error,
-    
-    // Mutations
     addEntry: addEntryMutation.mutate,
     addEntryAsync: addEntryMutation.mutateAsync,
     updateEntry: updateEntryMutation.mutate,
     updateEntryAsync: updateEntryMutation.mutateAsync,
     deleteEntry: deleteEntryMutation.mutate,
     deleteEntryAsync: deleteEntryMutation.mutateAsync,
+    restoreEntryAsync: restoreEntryMutation.mutateAsync,
     
     // Seed data function
     generateSeedData: seedDataMutation.mutate,
+  };
+}
+
+/**
+ * Custom hook to access and manipulate water log entries.
+ *
+ * Pass a `{ start, end }` range to load any window of history, or a preset
+ * timespan for the window containing today, using the user's day and week start.
+ */
+export function useEntries(rangeOrTimespan: DateRange | TimeSpan = 'week') {
+  const queryClient = useQueryClient();
+  const store = useLogStore();
+  const userId = getCurrentUserId();
+  const dayStartHour = useSettingsStore((state) => state.settings.dayStartHour);
+  const weekStartDay = useSettingsStore((state) => state.settings.weekStartDay);
+
+  const earliestDate = useEarliestEntryDate();
+  const mutations = useEntryMutations();
+
+  const range = typeof rangeOrTimespan === 'string'
+    ? getPresetRange(rangeOrTimespan, new Date(), { dayStartHour, weekStartDay }, earliestDate)
+    : rangeOrTimespan;
+
+  // Query for fetching entries
+  const entriesQuery = useQuery({
+    queryKey: ['entries', userId, range.start.getTime(), range.end.getTime()],
+    queryFn: () => {
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+      return store.fetchEntries(range);
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    // Keep showing the previous window while paging to the next one
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    // Data and loading states
+    entries: entriesQuery.data || [],
+    earliestDate,
+    isLoading: entriesQuery.isLoading,
+    isFetching: entriesQuery.isFetching,
+    error: entriesQuery.error || store.error,
+    
+    // Mutations
+    ...mutations,
     
     // Refresh function
     refresh: () => queryClient.invalidateQueries({ queryKey: ['entries'] }),